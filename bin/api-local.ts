@@ -0,0 +1,46 @@
+import * as dynamodb from "@aws-sdk/client-dynamodb";
+import * as ddc from "@aws-sdk/lib-dynamodb";
+import { createServer } from "http";
+import { handleApiRequest } from "../lib/api.js";
+import { InMemoryLedgerStore } from "../lib/memory-store.js";
+import { DynamoDbLedgerStore, LedgerStore } from "../lib/store.js";
+
+// Serves the HTTP API from a DynamoDB Local table, as the API Gateway and its Lambda Function do when deployed. The
+// table has to exist already, e.g. from running the local benchmark; set LEDGER_STORE=memory to run without it.
+
+const TABLE_NAME = process.env["TABLE_NAME"] ?? "transactions";
+const PORT = Number.parseInt(process.env["PORT"] ?? "3000");
+
+const dynamoDbClient = new dynamodb.DynamoDBClient({
+  region: "localhost",
+  endpoint: "http://localhost:8000",
+  credentials: {
+    accessKeyId: "a",
+    secretAccessKey: "k",
+  },
+});
+const documentClient = ddc.DynamoDBDocumentClient.from(dynamoDbClient, {
+  marshallOptions: { removeUndefinedValues: true },
+});
+const store: LedgerStore =
+  process.env["LEDGER_STORE"] === "memory"
+    ? new InMemoryLedgerStore()
+    : new DynamoDbLedgerStore(documentClient, TABLE_NAME);
+
+const server = createServer(async (req, res) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk);
+  }
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const response = await handleApiRequest(store, {
+    method: req.method ?? "GET",
+    path: url.pathname,
+    query: Object.fromEntries(url.searchParams),
+    body: chunks.length > 0 ? Buffer.concat(chunks).toString("utf8") : undefined,
+  });
+  res.writeHead(response.statusCode, response.headers).end(response.body);
+  console.log({ method: req.method, path: url.pathname, status: response.statusCode });
+});
+
+server.listen(PORT, () => console.log(`Serving the ledger API on http://localhost:${PORT}`));
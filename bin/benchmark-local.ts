@@ -5,6 +5,15 @@ import { inspect } from "util";
 import { AccountSelectionStrategy } from "../lib/generators.js";
 import { LoadTestDriver } from "../lib/load-test-runner.js";
 import { CreateTransfersLoadTest, ReadAccountBalancesLoadTest } from "../lib/load-tests.js";
+import { InMemoryLedgerStore } from "../lib/memory-store.js";
+import { DynamoDbLedgerStore, LedgerStore } from "../lib/store.js";
+import {
+  CODE_INDEX,
+  CREDIT_ACCOUNT_TRANSFERS_INDEX,
+  DEBIT_ACCOUNT_TRANSFERS_INDEX,
+  EXPIRY_INDEX,
+  USER_DATA_INDEX,
+} from "../lib/transactions.js";
 
 // Load test parameters
 
@@ -24,6 +33,9 @@ const writeAccountSelectionStrategy = AccountSelectionStrategy.RANDOM_PEER_TO_PE
 const requestTimeoutMs = 100;
 const dynamoDbClientTimeoutMs = 500;
 
+// Set LEDGER_STORE=memory to measure the transfer logic by itself, without DynamoDB Local
+const inMemory = process.env["LEDGER_STORE"] === "memory";
+
 // No more test configuration below this line
 
 inspect.defaultOptions.depth = 5;
@@ -46,6 +58,7 @@ const dynamoDbClient = new dynamodb.DynamoDBClient({
 export const documentClient = ddc.DynamoDBDocumentClient.from(dynamoDbClient, {
   marshallOptions: { removeUndefinedValues: true },
 });
+const store: LedgerStore = inMemory ? new InMemoryLedgerStore() : new DynamoDbLedgerStore(documentClient, TABLE_NAME);
 
 async function createDatabaseTable(opts: { recreateIfExists: boolean }) {
   if (!opts.recreateIfExists) {
@@ -80,6 +93,56 @@ async function createDatabaseTable(opts: { recreateIfExists: boolean }) {
       AttributeDefinitions: [
         { AttributeName: "pk", AttributeType: "S" },
         { AttributeName: "sk", AttributeType: "S" },
+        { AttributeName: "debit_account_id", AttributeType: "N" },
+        { AttributeName: "credit_account_id", AttributeType: "N" },
+        { AttributeName: "timestamp", AttributeType: "N" },
+        { AttributeName: "user_data_key", AttributeType: "S" },
+        { AttributeName: "code_key", AttributeType: "S" },
+        { AttributeName: "index_sk", AttributeType: "S" },
+        { AttributeName: "expiry_key", AttributeType: "S" },
+        { AttributeName: "expires_at", AttributeType: "N" },
+      ],
+      GlobalSecondaryIndexes: [
+        {
+          IndexName: DEBIT_ACCOUNT_TRANSFERS_INDEX,
+          KeySchema: [
+            { AttributeName: "debit_account_id", KeyType: "HASH" },
+            { AttributeName: "timestamp", KeyType: "RANGE" },
+          ],
+          Projection: { ProjectionType: "ALL" },
+        },
+        {
+          IndexName: CREDIT_ACCOUNT_TRANSFERS_INDEX,
+          KeySchema: [
+            { AttributeName: "credit_account_id", KeyType: "HASH" },
+            { AttributeName: "timestamp", KeyType: "RANGE" },
+          ],
+          Projection: { ProjectionType: "ALL" },
+        },
+        {
+          IndexName: USER_DATA_INDEX,
+          KeySchema: [
+            { AttributeName: "user_data_key", KeyType: "HASH" },
+            { AttributeName: "index_sk", KeyType: "RANGE" },
+          ],
+          Projection: { ProjectionType: "ALL" },
+        },
+        {
+          IndexName: CODE_INDEX,
+          KeySchema: [
+            { AttributeName: "code_key", KeyType: "HASH" },
+            { AttributeName: "index_sk", KeyType: "RANGE" },
+          ],
+          Projection: { ProjectionType: "ALL" },
+        },
+        {
+          IndexName: EXPIRY_INDEX,
+          KeySchema: [
+            { AttributeName: "expiry_key", KeyType: "HASH" },
+            { AttributeName: "expires_at", KeyType: "RANGE" },
+          ],
+          Projection: { ProjectionType: "ALL" },
+        },
       ],
       BillingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
     }),
@@ -88,12 +151,13 @@ async function createDatabaseTable(opts: { recreateIfExists: boolean }) {
 }
 
 async function main() {
-  await createDatabaseTable({ recreateIfExists: false });
+  if (!inMemory) {
+    await createDatabaseTable({ recreateIfExists: false });
+  }
 
   const writeDriver = new LoadTestDriver(
     new CreateTransfersLoadTest({
-      documentClient,
-      tableName: TABLE_NAME,
+      store,
       numAccounts,
       hotAccounts,
       batchSize: writeBatchSize,
@@ -111,8 +175,7 @@ async function main() {
 
   const readDriver = new LoadTestDriver(
     new ReadAccountBalancesLoadTest({
-      documentClient,
-      tableName: TABLE_NAME,
+      store,
       numAccounts,
       batchSize: readBatchSize,
       progressMarker: readRate,
@@ -0,0 +1,28 @@
+import * as dynamodb from "@aws-sdk/client-dynamodb";
+import * as ddc from "@aws-sdk/lib-dynamodb";
+import { expirePendingTransfers } from "../lib/transactions.js";
+
+// Voids the timed-out pending transfers in a DynamoDB Local table, as the scheduled sweeper does when deployed.
+
+const TABLE_NAME = process.env["TABLE_NAME"] ?? "transactions";
+
+const dynamoDbClient = new dynamodb.DynamoDBClient({
+  region: "localhost",
+  endpoint: "http://localhost:8000",
+  credentials: {
+    accessKeyId: "a",
+    secretAccessKey: "k",
+  },
+});
+const documentClient = ddc.DynamoDBDocumentClient.from(dynamoDbClient);
+
+const now = Date.now();
+let expired = 0;
+let cursor: string | undefined;
+do {
+  const result = await expirePendingTransfers(documentClient, TABLE_NAME, { now, cursor });
+  expired += result.expired.length;
+  // A page that expired nothing leaves the rest to the next run
+  cursor = result.expired.length > 0 ? result.cursor : undefined;
+} while (cursor);
+console.log({ expired });
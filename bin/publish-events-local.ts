@@ -0,0 +1,35 @@
+import * as sqs from "@aws-sdk/client-sqs";
+import type { DynamoDBStreamEvent } from "aws-lambda";
+import { readFile } from "fs/promises";
+import { encodeLedgerEvent, ledgerEventFromRecord, publishLedgerEvents } from "../lib/events.js";
+
+// Feeds recorded DynamoDB stream records through the event processor, as the stream-triggered Lambda Function does when
+// deployed. The events are sent to the FIFO queue at QUEUE_URL, e.g. on ElasticMQ, or printed if it isn't set.
+
+const RECORDS_FILE = process.argv[2] ?? "test/stream-records.json";
+const QUEUE_URL = process.env["QUEUE_URL"];
+
+const { Records: records }: DynamoDBStreamEvent = JSON.parse(await readFile(RECORDS_FILE, "utf8"));
+
+if (QUEUE_URL) {
+  const sqsClient = new sqs.SQSClient({
+    region: "localhost",
+    endpoint: new URL(QUEUE_URL).origin,
+    credentials: {
+      accessKeyId: "a",
+      secretAccessKey: "k",
+    },
+  });
+  const result = await publishLedgerEvents(sqsClient, QUEUE_URL, records);
+  console.log({ records: records.length, ...result });
+  if (result.failedSequenceNumber) {
+    process.exitCode = 1;
+  }
+} else {
+  for (const record of records) {
+    const event = ledgerEventFromRecord(record);
+    if (event) {
+      console.log(encodeLedgerEvent(event));
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import * as dynamodb from "@aws-sdk/client-dynamodb";
+import * as ddc from "@aws-sdk/lib-dynamodb";
+import { inspect } from "util";
+import { reconcile } from "../lib/reconciliation.js";
+
+// Reconciles the balances in a DynamoDB Local table, e.g. after running the local benchmark.
+
+inspect.defaultOptions.depth = 5;
+
+const TABLE_NAME = process.env["TABLE_NAME"] ?? "transactions";
+const SCAN_SEGMENTS = Number.parseInt(process.env["SCAN_SEGMENTS"] ?? "4");
+
+const dynamoDbClient = new dynamodb.DynamoDBClient({
+  region: "localhost",
+  endpoint: "http://localhost:8000",
+  credentials: {
+    accessKeyId: "a",
+    secretAccessKey: "k",
+  },
+});
+const documentClient = ddc.DynamoDBDocumentClient.from(dynamoDbClient);
+
+const report = await reconcile(documentClient, TABLE_NAME, { segments: SCAN_SEGMENTS });
+console.log(report);
+if (report.drift.length > 0) {
+  process.exitCode = 1;
+}
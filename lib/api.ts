@@ -0,0 +1,323 @@
+import { setTimeout } from "timers/promises";
+import {
+  AccountExistsError,
+  ConflictError,
+  LedgerError,
+  ThrottledError,
+  TransientError,
+  ValidationError,
+} from "./errors.js";
+import { LedgerStore } from "./store.js";
+import { Account, CreateTransfersResult, Transfer, bigintsAsStrings } from "./transactions.js";
+
+/** An HTTP request, as far as the API is concerned; the Lambda Function and the local server both translate theirs. */
+export interface ApiRequest {
+  method: string;
+  path: string;
+  query: Record<string, string | undefined>;
+  body?: string;
+}
+
+export interface ApiResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/** The most transfers that can be created, or accounts or transfers looked up, in a single request. */
+export const MAX_REQUEST_ITEMS = 1_000;
+
+/**
+ * The most accounts that can be created in a single request. They are created in a single transaction, all or nothing,
+ * so sharded and HISTORY accounts, which take more than one item each, leave room for fewer.
+ */
+export const MAX_REQUEST_ACCOUNTS = 100;
+
+const MAX_RETRIES = 3;
+
+type Route = (store: LedgerStore, request: ApiRequest, id?: string) => Promise<ApiResponse>;
+
+const ROUTES: { method: string; pattern: RegExp; route: Route }[] = [
+  { method: "POST", pattern: /^\/accounts$/, route: createAccounts },
+  { method: "GET", pattern: /^\/accounts$/, route: lookupAccounts },
+  { method: "GET", pattern: /^\/accounts\/([^/]+)$/, route: getAccount },
+  { method: "POST", pattern: /^\/transfers$/, route: createTransfers },
+  { method: "GET", pattern: /^\/transfers$/, route: lookupTransfers },
+  { method: "GET", pattern: /^\/transfers\/([^/]+)$/, route: getTransfer },
+];
+
+/**
+ * Handles a request to the HTTP API. Amounts and balances are decimal strings in both directions, as JSON numbers
+ * can't hold them. Transfers that can't be applied are reported with their TransferResult in a successful response;
+ * requests that fail as a whole get an error status, with the LedgerError's name and whether it is retryable.
+ */
+export async function handleApiRequest(store: LedgerStore, request: ApiRequest): Promise<ApiResponse> {
+  const path = request.path.replace(/\/+$/, "");
+  const routes = ROUTES.filter(({ pattern }) => pattern.test(path));
+  const match = routes.find(({ method }) => method === request.method);
+  if (!match) {
+    return routes.length > 0
+      ? response(405, { error: "MethodNotAllowed", message: `${request.method} ${path} is not supported` })
+      : response(404, { error: "NotFound", message: `No such resource: ${path}` });
+  }
+  try {
+    return await match.route(store, request, match.pattern.exec(path)![1]);
+  } catch (err) {
+    if (err instanceof LedgerError) {
+      return errorResponse(err);
+    }
+    console.error({ message: "Unexpected error handling API request", method: request.method, path, err });
+    return response(500, { error: "InternalError", message: "Internal error", retryable: false });
+  }
+}
+
+async function createAccounts(store: LedgerStore, request: ApiRequest): Promise<ApiResponse> {
+  const accounts = batchOf(parseBody(request), "accounts", MAX_REQUEST_ACCOUNTS).map(parseAccount);
+  await store.createAccounts(accounts);
+  return response(201, { ids: accounts.map(({ id }) => id) });
+}
+
+async function lookupAccounts(store: LedgerStore, request: ApiRequest): Promise<ApiResponse> {
+  const ids = queryIds(request).map((id) => accountId(id, "ids"));
+  const { accounts } = await store.getAccounts(ids);
+  return response(200, { accounts: accounts ?? [] });
+}
+
+async function getAccount(store: LedgerStore, _request: ApiRequest, id?: string): Promise<ApiResponse> {
+  const account = await store.getAccount(accountId(pathParameter(id!), "id"));
+  return account ? response(200, account) : response(404, { error: "NotFound", message: `No account ${id}` });
+}
+
+async function createTransfers(store: LedgerStore, request: ApiRequest): Promise<ApiResponse> {
+  const body = parseBody(request);
+  const transfers = batchOf(body, "transfers", MAX_REQUEST_ITEMS).map(parseTransfer);
+  const strictAccounts = optional(body, "strictAccounts", "", boolean);
+  const { overallResult, results, timestamps, balancedAmounts } = await store.createTransfers(
+    transfers,
+    retryConflicts,
+    { strictAccounts },
+  );
+  return response(200, {
+    overallResult,
+    results,
+    timestamps,
+    ...(balancedAmounts?.some((a) => a !== undefined) ? { balancedAmounts } : {}),
+  });
+}
+
+async function lookupTransfers(store: LedgerStore, request: ApiRequest): Promise<ApiResponse> {
+  const { transfers } = await store.lookupTransfers(queryIds(request));
+  return response(200, { transfers });
+}
+
+async function getTransfer(store: LedgerStore, _request: ApiRequest, id?: string): Promise<ApiResponse> {
+  const transfer = await store.getTransfer(pathParameter(id!));
+  return transfer ? response(200, transfer) : response(404, { error: "NotFound", message: `No transfer ${id}` });
+}
+
+// Conflicts between concurrent requests usually clear up quickly; those that don't are reported as CONFLICT results
+async function retryConflicts(fn: () => Promise<CreateTransfersResult>): Promise<CreateTransfersResult> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (!(err instanceof LedgerError && err.retryable) || attempt > MAX_RETRIES) {
+        throw err;
+      }
+      // Jittered, so that the requests that conflicted don't meet again
+      await setTimeout(Math.random() * Math.min(10 * 2 ** attempt, 100));
+    }
+  }
+}
+
+function parseAccount(value: unknown, i: number): Account {
+  const at = `accounts[${i}]`;
+  const account = object(value, at, [
+    "id",
+    "user_data",
+    "ledger",
+    "code",
+    "flags",
+    "debits_pending",
+    "debits_posted",
+    "credits_pending",
+    "credits_posted",
+    "timestamp",
+    "shards",
+  ]);
+  return withoutUndefined({
+    id: required(account, "id", at, integer),
+    user_data: optional(account, "user_data", at, integer),
+    ledger: required(account, "ledger", at, integer),
+    code: optional(account, "code", at, integer),
+    flags: optional(account, "flags", at, integer),
+    debits_pending: optional(account, "debits_pending", at, amount) ?? 0n,
+    debits_posted: optional(account, "debits_posted", at, amount) ?? 0n,
+    credits_pending: optional(account, "credits_pending", at, amount) ?? 0n,
+    credits_posted: optional(account, "credits_posted", at, amount) ?? 0n,
+    // Rejected by the ledger, but passed on so that the error says why
+    timestamp: optional(account, "timestamp", at, integer),
+    shards: optional(account, "shards", at, integer),
+  });
+}
+
+function parseTransfer(value: unknown, i: number): Transfer {
+  const at = `transfers[${i}]`;
+  const transfer = object(value, at, [
+    "id",
+    "debit_account_id",
+    "credit_account_id",
+    "user_data",
+    "pending_id",
+    "timeout",
+    "ledger",
+    "code",
+    "flags",
+    "amount",
+    "timestamp",
+  ]);
+  return withoutUndefined({
+    id: required(transfer, "id", at, string),
+    debit_account_id: required(transfer, "debit_account_id", at, integer),
+    credit_account_id: required(transfer, "credit_account_id", at, integer),
+    user_data: optional(transfer, "user_data", at, integer),
+    pending_id: optional(transfer, "pending_id", at, string),
+    timeout: optional(transfer, "timeout", at, integer) ?? 0,
+    ledger: required(transfer, "ledger", at, integer),
+    code: optional(transfer, "code", at, integer),
+    flags: optional(transfer, "flags", at, integer),
+    amount: required(transfer, "amount", at, amount),
+    // Rejected by the ledger with TIMESTAMP_MUST_NOT_BE_SET, like any other invalid transfer
+    timestamp: optional(transfer, "timestamp", at, integer),
+  });
+}
+
+function parseBody(request: ApiRequest): Record<string, unknown> {
+  let body: unknown;
+  try {
+    body = JSON.parse(request.body ?? "");
+  } catch {
+    throw new ValidationError("The request body must be JSON");
+  }
+  return object(body, "body");
+}
+
+function batchOf(body: Record<string, unknown>, field: string, max: number): unknown[] {
+  const batch = body[field];
+  if (!Array.isArray(batch) || batch.length === 0 || batch.length > max) {
+    throw new ValidationError(`${field} must be an array of 1 to ${max} items`);
+  }
+  return batch;
+}
+
+function pathParameter(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new ValidationError(`The path must be URL-encoded, not ${value}`);
+  }
+}
+
+function queryIds(request: ApiRequest): string[] {
+  const ids = (request.query["ids"] ?? "").split(",").filter((id) => id !== "");
+  if (ids.length === 0 || ids.length > MAX_REQUEST_ITEMS) {
+    throw new ValidationError(`ids must list 1 to ${MAX_REQUEST_ITEMS} comma-separated ids`);
+  }
+  return ids;
+}
+
+function accountId(value: string, at: string): Account["id"] {
+  if (!/^\d+$/.test(value)) {
+    throw new ValidationError(`${at} must be account ids, not ${value}`);
+  }
+  return integer(Number(value), at);
+}
+
+function object(value: unknown, at: string, fields?: string[]): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new ValidationError(`${at} must be an object`);
+  }
+  const unknown = fields ? Object.keys(value).filter((field) => !fields.includes(field)) : [];
+  if (unknown.length > 0) {
+    throw new ValidationError(`${at} has unknown fields: ${unknown.join(", ")}`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function required<T>(obj: Record<string, unknown>, field: string, at: string, parse: (v: unknown, at: string) => T): T {
+  const value = optional(obj, field, at, parse);
+  if (value === undefined) {
+    throw new ValidationError(`${at}.${field} is required`);
+  }
+  return value;
+}
+
+function optional<T>(
+  obj: Record<string, unknown>,
+  field: string,
+  at: string,
+  parse: (v: unknown, at: string) => T,
+): T | undefined {
+  const value = obj[field];
+  return value === undefined || value === null ? undefined : parse(value, at ? `${at}.${field}` : field);
+}
+
+function integer(value: unknown, at: string): number {
+  if (typeof value !== "number" || !Number.isSafeInteger(value) || value < 0) {
+    throw new ValidationError(`${at} must be a non-negative integer`);
+  }
+  return value;
+}
+
+/** Amounts are decimal strings, or numbers for the ones JavaScript can represent exactly. */
+function amount(value: unknown, at: string): bigint {
+  if (typeof value === "string" && /^\d+$/.test(value)) {
+    return BigInt(value);
+  }
+  return BigInt(integer(value, at));
+}
+
+function string(value: unknown, at: string): string {
+  if (typeof value !== "string" || value === "") {
+    throw new ValidationError(`${at} must be a non-empty string`);
+  }
+  return value;
+}
+
+function boolean(value: unknown, at: string): boolean {
+  if (typeof value !== "boolean") {
+    throw new ValidationError(`${at} must be true or false`);
+  }
+  return value;
+}
+
+function errorResponse(err: LedgerError): ApiResponse {
+  const body = {
+    error: err.name,
+    message: err.message,
+    retryable: err.retryable,
+    ...(err instanceof AccountExistsError ? { accountIds: err.accountIds } : {}),
+  };
+  if (err instanceof ValidationError) {
+    return response(400, body);
+  } else if (err instanceof AccountExistsError || err instanceof ConflictError) {
+    return response(409, body);
+  } else if (err instanceof ThrottledError) {
+    return response(429, body);
+  } else if (err instanceof TransientError) {
+    return response(503, body);
+  }
+  return response(500, body);
+}
+
+function response(statusCode: number, body: unknown): ApiResponse {
+  return {
+    statusCode,
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body, bigintsAsStrings),
+  };
+}
+
+function withoutUndefined<T extends object>(obj: T): T {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as T;
+}
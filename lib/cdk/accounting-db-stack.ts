@@ -1,10 +1,24 @@
 import * as cdk from "aws-cdk-lib";
+import * as apigw from "aws-cdk-lib/aws-apigatewayv2";
+import * as apigw_authorizers from "aws-cdk-lib/aws-apigatewayv2-authorizers";
+import * as apigw_integrations from "aws-cdk-lib/aws-apigatewayv2-integrations";
 import * as dynamodb from "aws-cdk-lib/aws-dynamodb";
+import * as events from "aws-cdk-lib/aws-events";
+import * as events_targets from "aws-cdk-lib/aws-events-targets";
 import * as lambda from "aws-cdk-lib/aws-lambda";
+import * as lambda_event_sources from "aws-cdk-lib/aws-lambda-event-sources";
 import * as lambda_node from "aws-cdk-lib/aws-lambda-nodejs";
+import * as sqs from "aws-cdk-lib/aws-sqs";
 import { Construct } from "constructs";
 import * as path from "path";
 import { fileURLToPath } from "url";
+import {
+  CODE_INDEX,
+  CREDIT_ACCOUNT_TRANSFERS_INDEX,
+  DEBIT_ACCOUNT_TRANSFERS_INDEX,
+  EXPIRY_INDEX,
+  USER_DATA_INDEX,
+} from "../transactions.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -45,9 +59,52 @@ export class AccountingDbStack extends cdk.Stack {
       },
 
       contributorInsightsEnabled: true,
+      /// Both images, so that balance changes can be told apart from other
+      /// updates to the account items.
+      stream: dynamodb.StreamViewType.NEW_AND_OLD_IMAGES,
       removalPolicy: cdk.RemovalPolicy.DESTROY, // Don't do this with real data you care about!
     });
 
+    /// The table has five global secondary indexes, but CloudFormation can
+    /// only add one to an existing table per deployment. A table deployed
+    /// before some of them has to be destroyed and deployed again, as the
+    /// removal policy allows, or the missing indexes added one at a time.
+
+    /// Account transfer history, read back from both sides.
+    for (const [indexName, accountAttribute] of [
+      [DEBIT_ACCOUNT_TRANSFERS_INDEX, "debit_account_id"],
+      [CREDIT_ACCOUNT_TRANSFERS_INDEX, "credit_account_id"],
+    ]) {
+      table.addGlobalSecondaryIndex({
+        indexName,
+        partitionKey: { name: accountAttribute, type: dynamodb.AttributeType.NUMBER },
+        sortKey: { name: "timestamp", type: dynamodb.AttributeType.NUMBER },
+        projectionType: dynamodb.ProjectionType.ALL,
+      });
+    }
+
+    /// Transfer and account lookups by user_data, and by ledger and code.
+    for (const [indexName, keyAttribute] of [
+      [USER_DATA_INDEX, "user_data_key"],
+      [CODE_INDEX, "code_key"],
+    ]) {
+      table.addGlobalSecondaryIndex({
+        indexName,
+        partitionKey: { name: keyAttribute, type: dynamodb.AttributeType.STRING },
+        sortKey: { name: "index_sk", type: dynamodb.AttributeType.STRING },
+        projectionType: dynamodb.ProjectionType.ALL,
+      });
+    }
+
+    /// Pending transfers with a timeout, by expiry time. Only pending transfers
+    /// that haven't been resolved yet carry the key, so the index stays small.
+    table.addGlobalSecondaryIndex({
+      indexName: EXPIRY_INDEX,
+      partitionKey: { name: "expiry_key", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "expires_at", type: dynamodb.AttributeType.NUMBER },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
     const benchmarkTransfers = new lambda_node.NodejsFunction(this, "BenchmarkTransfers", {
       memorySize: 4096,
       timeout: cdk.Duration.seconds(600),
@@ -63,5 +120,111 @@ export class AccountingDbStack extends cdk.Stack {
     new cdk.CfnOutput(this, "BenchmarkFunctionName", {
       value: benchmarkTransfers.functionName,
     });
+
+    /// Recomputes balances from the stored transfers and logs any drift. It
+    /// scans the whole table, so it's only run on demand.
+    const reconcileBalances = new lambda_node.NodejsFunction(this, "ReconcileBalances", {
+      memorySize: 2048,
+      timeout: cdk.Duration.seconds(900),
+      runtime: lambda.Runtime.NODEJS_LATEST,
+      handler: "handler",
+      entry: path.join(__dirname, "../lambda/reconcile.ts"),
+      environment: {
+        TABLE_NAME: table.tableName,
+      },
+    });
+    table.grantReadData(reconcileBalances);
+
+    new cdk.CfnOutput(this, "ReconcileFunctionName", {
+      value: reconcileBalances.functionName,
+    });
+
+    /// Voids pending transfers once their timeout has passed, restoring the
+    /// pending balances they held. Expiry is only as precise as the schedule.
+    const expirePendingTransfers = new lambda_node.NodejsFunction(this, "ExpirePendingTransfers", {
+      memorySize: 1024,
+      timeout: cdk.Duration.seconds(60),
+      runtime: lambda.Runtime.NODEJS_LATEST,
+      handler: "handler",
+      entry: path.join(__dirname, "../lambda/expire-pending.ts"),
+      environment: {
+        TABLE_NAME: table.tableName,
+      },
+    });
+    table.grantReadWriteData(expirePendingTransfers);
+
+    new events.Rule(this, "ExpirePendingTransfersSchedule", {
+      schedule: events.Schedule.rate(cdk.Duration.minutes(1)),
+      targets: [new events_targets.LambdaFunction(expirePendingTransfers)],
+    });
+
+    new cdk.CfnOutput(this, "ExpirePendingFunctionName", {
+      value: expirePendingTransfers.functionName,
+    });
+
+    /// Committed transfers and balance changes, read off the table's stream.
+    /// Messages are grouped by the item they come from, which keeps the
+    /// changes to each account in order without holding up other accounts.
+    const ledgerEvents = new sqs.Queue(this, "LedgerEvents", {
+      fifo: true,
+      deduplicationScope: sqs.DeduplicationScope.MESSAGE_GROUP,
+      fifoThroughputLimit: sqs.FifoThroughputLimit.PER_MESSAGE_GROUP_ID,
+      retentionPeriod: cdk.Duration.days(14),
+    });
+
+    const publishEvents = new lambda_node.NodejsFunction(this, "PublishLedgerEvents", {
+      memorySize: 512,
+      timeout: cdk.Duration.seconds(60),
+      runtime: lambda.Runtime.NODEJS_LATEST,
+      handler: "handler",
+      entry: path.join(__dirname, "../lambda/publish-events.ts"),
+      environment: {
+        QUEUE_URL: ledgerEvents.queueUrl,
+      },
+    });
+    ledgerEvents.grantSendMessages(publishEvents);
+
+    /// Failed batches are retried from the first record that couldn't be
+    /// sent, for as long as the stream keeps the records (24 hours), so that
+    /// no event is skipped or delivered out of order.
+    publishEvents.addEventSource(
+      new lambda_event_sources.DynamoEventSource(table, {
+        startingPosition: lambda.StartingPosition.TRIM_HORIZON,
+        batchSize: 100,
+        maxBatchingWindow: cdk.Duration.seconds(1),
+        reportBatchItemFailures: true,
+      }),
+    );
+
+    new cdk.CfnOutput(this, "LedgerEventsQueueUrl", {
+      value: ledgerEvents.queueUrl,
+    });
+
+    /// The ledger's HTTP API for other services. Callers sign their requests
+    /// with IAM credentials allowed to execute-api:Invoke it.
+    const apiHandler = new lambda_node.NodejsFunction(this, "LedgerApi", {
+      memorySize: 1024,
+      timeout: cdk.Duration.seconds(29),
+      runtime: lambda.Runtime.NODEJS_LATEST,
+      handler: "handler",
+      entry: path.join(__dirname, "../lambda/api.ts"),
+      environment: {
+        TABLE_NAME: table.tableName,
+      },
+    });
+    table.grantReadWriteData(apiHandler);
+
+    const api = new apigw.HttpApi(this, "LedgerHttpApi", {
+      defaultAuthorizer: new apigw_authorizers.HttpIamAuthorizer(),
+    });
+    const integration = new apigw_integrations.HttpLambdaIntegration("LedgerApiIntegration", apiHandler);
+    for (const resource of ["accounts", "transfers"]) {
+      api.addRoutes({ path: `/${resource}`, methods: [apigw.HttpMethod.GET, apigw.HttpMethod.POST], integration });
+      api.addRoutes({ path: `/${resource}/{id}`, methods: [apigw.HttpMethod.GET], integration });
+    }
+
+    new cdk.CfnOutput(this, "LedgerApiUrl", {
+      value: api.apiEndpoint,
+    });
   }
 }
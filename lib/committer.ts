@@ -0,0 +1,127 @@
+import * as ddc from "@aws-sdk/lib-dynamodb";
+import {
+  CreateTransfersOptions,
+  CreateTransfersResult,
+  Transfer,
+  TransferFlags,
+  TransferResult,
+  createTransfersBatch,
+} from "./transactions.js";
+
+export interface TransferCommitterOptions extends CreateTransfersOptions {
+  /** How long the first transfer to arrive waits for others to join its batch; defaults to 5 ms. */
+  maxDelayMs?: number;
+  /** Commit as soon as this many transfers are waiting; defaults to 100. */
+  maxBatchSize?: number;
+  /** The number of batches that may be committing at the same time; defaults to 1. */
+  maxInFlight?: number;
+  /** The retry strategy for each batch, as for createTransfersBatch. */
+  retry?: (fn: () => Promise<CreateTransfersResult>) => Promise<CreateTransfersResult>;
+}
+
+interface Submission {
+  transfer: Transfer;
+  resolve: (result: TransferResult) => void;
+  reject: (err: unknown) => void;
+}
+
+/**
+ * Accepts transfers one at a time and commits them in batches, so that callers submitting single transfers still get
+ * their account updates coalesced and share the cost of a transaction.
+ *
+ * A batch is committed once it is full or the first transfer in it has waited long enough. While a batch is being
+ * committed, the next one fills up, so under load batches grow to match the commit latency. Each caller gets the result
+ * of its own transfer; if the whole batch fails, every caller in it gets the error.
+ */
+export class TransferCommitter {
+  private readonly maxDelayMs: number;
+  private readonly maxBatchSize: number;
+  private readonly maxInFlight: number;
+  private waiting: Submission[] = [];
+  private timer: NodeJS.Timeout | undefined;
+  private readonly inFlight: Set<Promise<void>> = new Set();
+
+  constructor(
+    private readonly client: ddc.DynamoDBDocumentClient,
+    private readonly tableName: string,
+    private readonly opts: TransferCommitterOptions = {},
+  ) {
+    this.maxDelayMs = opts.maxDelayMs ?? 5;
+    this.maxBatchSize = opts.maxBatchSize ?? 100;
+    this.maxInFlight = opts.maxInFlight ?? 1;
+  }
+
+  submit(transfer: Transfer): Promise<TransferResult> {
+    // Submissions from unrelated callers must not end up chained together
+    if ((transfer.flags ?? TransferFlags.NONE) & TransferFlags.LINKED) {
+      return Promise.resolve(TransferResult.LINKED_EVENT_CHAIN_OPEN);
+    }
+    const result = new Promise<TransferResult>((resolve, reject) => this.waiting.push({ transfer, resolve, reject }));
+    if (this.waiting.length >= this.maxBatchSize) {
+      this.commitWaiting();
+    } else if (this.timer === undefined) {
+      this.timer = setTimeout(() => this.commitWaiting(), this.maxDelayMs);
+    }
+    return result;
+  }
+
+  /**
+   * Commits the transfers waiting without further delay, and returns once every transfer submitted so far is settled.
+   */
+  async flush(): Promise<void> {
+    while (this.waiting.length > 0 || this.inFlight.size > 0) {
+      this.commitWaiting();
+      await Promise.race(this.inFlight);
+    }
+  }
+
+  private commitWaiting() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    while (this.waiting.length > 0 && this.inFlight.size < this.maxInFlight) {
+      const commit: Promise<void> = this.commit(this.takeBatch()).finally(() => {
+        this.inFlight.delete(commit);
+        // Whatever arrived in the meantime has waited for long enough
+        if (this.waiting.length > 0) {
+          this.commitWaiting();
+        }
+      });
+      this.inFlight.add(commit);
+    }
+  }
+
+  /**
+   * Takes up to a batch worth of the waiting transfers, in the order they arrived. A transfer whose id is already in the
+   * batch waits for the next one, since a transaction can't write the same item twice.
+   */
+  private takeBatch(): Submission[] {
+    const batch: Submission[] = [];
+    const ids = new Set<Transfer["id"]>();
+    const rest: Submission[] = [];
+    for (const submission of this.waiting) {
+      if (batch.length < this.maxBatchSize && !ids.has(submission.transfer.id)) {
+        ids.add(submission.transfer.id);
+        batch.push(submission);
+      } else {
+        rest.push(submission);
+      }
+    }
+    this.waiting = rest;
+    return batch;
+  }
+
+  private async commit(batch: Submission[]) {
+    try {
+      const { results } = await createTransfersBatch(
+        this.client,
+        this.tableName,
+        batch.map((s) => s.transfer),
+        this.opts.retry,
+        this.opts,
+      );
+      batch.forEach((s, i) => s.resolve(results[i]));
+    } catch (err) {
+      batch.forEach((s) => s.reject(err));
+    }
+  }
+}
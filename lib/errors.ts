@@ -0,0 +1,122 @@
+import * as dynamodb from "@aws-sdk/client-dynamodb";
+
+/**
+ * Base class of the errors thrown by the ledger, in place of the AWS SDK exceptions behind them, which are kept as the
+ * cause. Results that are part of the ledger's semantics, such as insufficient funds, are reported as TransferResults
+ * instead.
+ */
+export class LedgerError extends Error {
+  /** Whether the same request may succeed if it is made again, unchanged, after a backoff. */
+  readonly retryable: boolean = false;
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/** The request is invalid as it stands, for example an account with out of range balances. */
+export class ValidationError extends LedgerError {}
+
+export class AccountExistsError extends LedgerError {
+  constructor(
+    readonly accountIds: number[],
+    options?: ErrorOptions,
+  ) {
+    super(`Accounts already exist: ${accountIds.join(", ")}`, options);
+  }
+}
+
+/** The account the request is about doesn't exist. */
+export class AccountNotFoundError extends LedgerError {
+  constructor(
+    readonly accountId: number,
+    options?: ErrorOptions,
+  ) {
+    super(`Account ${accountId}: not found`, options);
+  }
+}
+
+/** The request raced with another one over the same items, and was cancelled without effect. */
+export class ConflictError extends LedgerError {
+  override readonly retryable = true;
+}
+
+/**
+ * Transfers that conflicted with a concurrent transaction. This is what the retry strategy passed to
+ * createTransfersBatch gets to see; if the conflict persists, the transfers are reported as CONFLICT.
+ */
+export class TransferConflictError extends ConflictError {}
+
+/** DynamoDB is throttling the requests to the table, or to one of its partitions. */
+export class ThrottledError extends LedgerError {
+  override readonly retryable = true;
+}
+
+/** The request timed out, couldn't reach DynamoDB, or failed on its side. It may or may not have taken effect. */
+export class TransientError extends LedgerError {
+  override readonly retryable = true;
+}
+
+/** DynamoDB rejected the request for a reason that trying it again won't fix. */
+export class StorageError extends LedgerError {}
+
+const NETWORK_ERROR_CODES = ["ECONNRESET", "ECONNREFUSED", "EPIPE", "ETIMEDOUT", "EAI_AGAIN"];
+
+/**
+ * Translates errors from the AWS SDK and the network into LedgerErrors. Anything else, such as LedgerErrors themselves
+ * and programming errors, is returned unchanged.
+ */
+export function ledgerError(err: unknown): unknown {
+  if (err instanceof LedgerError || !(err instanceof Error)) {
+    return err;
+  }
+  const message = err.message;
+  if (err instanceof dynamodb.TransactionCanceledException) {
+    const codes = (err.CancellationReasons ?? []).map((reason) => reason.Code).filter((code) => code !== "None");
+    if (codes.some((code) => code === "ThrottlingError" || code === "ProvisionedThroughputExceeded")) {
+      return new ThrottledError(message, { cause: err });
+    }
+    if (codes.some((code) => code === "ValidationError")) {
+      return new ValidationError(message, { cause: err });
+    }
+    if (codes.length > 0 && codes.every((code) => code === "TransactionConflict")) {
+      return new ConflictError(message, { cause: err });
+    }
+    return new StorageError(message, { cause: err });
+  }
+  if (err instanceof dynamodb.DynamoDBServiceException) {
+    if (
+      err instanceof dynamodb.ProvisionedThroughputExceededException ||
+      err instanceof dynamodb.RequestLimitExceeded ||
+      err.name === "ThrottlingException" ||
+      err.$retryable?.throttling
+    ) {
+      return new ThrottledError(message, { cause: err });
+    }
+    if (err.name === "ValidationException") {
+      return new ValidationError(message, { cause: err });
+    }
+    // Also covers TransactionInProgressException, the same transaction still being applied under its request token
+    if (err.$fault === "server" || err instanceof dynamodb.TransactionInProgressException) {
+      return new TransientError(message, { cause: err });
+    }
+    return new StorageError(message, { cause: err });
+  }
+  const code = (err as { code?: string }).code;
+  if (err.name === "TimeoutError" || (code !== undefined && NETWORK_ERROR_CODES.includes(code))) {
+    return new TransientError(message, { cause: err });
+  }
+  return err;
+}
+
+/**
+ * Runs the operation, translating the errors it throws as ledgerError does.
+ */
+export async function withLedgerErrors<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (err) {
+    throw ledgerError(err);
+  }
+}
@@ -0,0 +1,164 @@
+import * as sqs from "@aws-sdk/client-sqs";
+import { unmarshall } from "@aws-sdk/util-dynamodb";
+import type { DynamoDBRecord } from "aws-lambda";
+import {
+  Account,
+  BALANCES,
+  Balances,
+  Transfer,
+  balancesFromItem,
+  bigintsAsStrings,
+  transferFromItem,
+} from "./transactions.js";
+
+export enum LedgerEventType {
+  TRANSFER_COMMITTED = "TRANSFER_COMMITTED",
+  BALANCE_CHANGED = "BALANCE_CHANGED",
+}
+
+interface LedgerEventBase {
+  /** Unique to the change, and the same every time it is delivered; consumers can deduplicate on it. */
+  id: string;
+  /** When DynamoDB recorded the change, in milliseconds since the epoch, but only precise to the second. */
+  recorded_at: number;
+}
+
+export interface TransferCommitted extends LedgerEventBase {
+  type: LedgerEventType.TRANSFER_COMMITTED;
+  /** As getTransfer would return it right after the commit, with the timestamp assigned by the ledger. */
+  transfer: Transfer;
+}
+
+export interface BalanceChanged extends LedgerEventBase {
+  type: LedgerEventType.BALANCE_CHANGED;
+  account_id: Account["id"];
+  ledger: Account["ledger"];
+  /** For sharded accounts, the shard that changed; the balances before and after are that shard's. */
+  shard?: number;
+  before: Balances;
+  after: Balances;
+}
+
+export type LedgerEvent = TransferCommitted | BalanceChanged;
+
+export interface PublishLedgerEventsResult {
+  published: number;
+  /**
+   * The sequence number of the first record whose event couldn't be sent, where sending stopped; it and the records
+   * that follow it should be processed again, in order.
+   */
+  failedSequenceNumber?: string;
+}
+
+/** The most messages SQS takes in a single batch. */
+const MAX_BATCH_MESSAGES = 10;
+
+const AMOUNT_FIELDS = new Set<string>(["amount", ...BALANCES]);
+
+/**
+ * The event a change to an item of the table amounts to, if any. New transfer items are committed transfers, and
+ * account items whose balances differ from before are balance changes, including accounts opened with balances. All
+ * other changes, such as pending transfers being resolved, account flags and balance snapshots, are left out. The
+ * stream has to carry both the new and the old images.
+ */
+export function ledgerEventFromRecord(record: DynamoDBRecord): LedgerEvent | undefined {
+  const change = record.dynamodb;
+  if (!record.eventID || !change?.NewImage || (record.eventName !== "INSERT" && record.eventName !== "MODIFY")) {
+    return undefined;
+  }
+  const base = { id: record.eventID, recorded_at: (change.ApproximateCreationDateTime ?? 0) * 1000 };
+  // The stream's attribute values are the same as those of the DynamoDB API, only typed separately
+  const item = unmarshall(change.NewImage as Parameters<typeof unmarshall>[0]);
+
+  if (item.pk.startsWith("transfer#")) {
+    return record.eventName === "INSERT"
+      ? { ...base, type: LedgerEventType.TRANSFER_COMMITTED, transfer: transferFromItem(item) }
+      : undefined;
+  }
+
+  // Balance snapshots share the account's partition key
+  if (item.pk.startsWith("account#") && item.sk === item.pk) {
+    const old = change.OldImage ? unmarshall(change.OldImage as Parameters<typeof unmarshall>[0]) : {};
+    const before = balancesFromItem(old);
+    const after = balancesFromItem(item);
+    if (BALANCES.every((b) => before[b] === after[b])) {
+      return undefined;
+    }
+    const [, accountId, , shard] = item.pk.split("#");
+    return {
+      ...base,
+      type: LedgerEventType.BALANCE_CHANGED,
+      account_id: Number.parseInt(accountId),
+      ledger: item.ledger,
+      ...(shard !== undefined ? { shard: Number.parseInt(shard) } : {}),
+      before,
+      after,
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Sends the events of the stream records to an SQS FIFO queue, in the order of the records. Each event is sent in the
+ * message group of the item it comes from, so that the changes to any one account or transfer are received in the order
+ * they were made, and deduplicated on its id, so that records processed again within SQS's deduplication interval
+ * aren't sent twice.
+ *
+ * Sending stops at the first event that can't be sent. A batch can still have sent events after the one that failed,
+ * and those may be received out of order if they are sent again after the deduplication interval.
+ */
+export async function publishLedgerEvents(
+  client: sqs.SQSClient,
+  queueUrl: string,
+  records: DynamoDBRecord[],
+): Promise<PublishLedgerEventsResult> {
+  const pending: { event: LedgerEvent; groupId: string; sequenceNumber?: string }[] = [];
+  for (const record of records) {
+    const event = ledgerEventFromRecord(record);
+    if (event) {
+      pending.push({ event, groupId: record.dynamodb!.Keys!.pk.S!, sequenceNumber: record.dynamodb!.SequenceNumber });
+    }
+  }
+
+  let published = 0;
+  for (let start = 0; start < pending.length; start += MAX_BATCH_MESSAGES) {
+    const batch = pending.slice(start, start + MAX_BATCH_MESSAGES);
+    let failed: number | undefined;
+    try {
+      const result = await client.send(
+        new sqs.SendMessageBatchCommand({
+          QueueUrl: queueUrl,
+          Entries: batch.map(({ event, groupId }, i) => ({
+            Id: String(i),
+            MessageBody: encodeLedgerEvent(event),
+            MessageGroupId: groupId,
+            MessageDeduplicationId: event.id,
+            MessageAttributes: { type: { DataType: "String", StringValue: event.type } },
+          })),
+        }),
+      );
+      const failures = (result.Failed ?? []).map(({ Id }) => Number.parseInt(Id!));
+      failed = failures.length > 0 ? Math.min(...failures) : undefined;
+    } catch (err) {
+      console.error({ message: "Failed to send ledger events", err });
+      failed = 0;
+    }
+    if (failed !== undefined) {
+      return { published: published + failed, failedSequenceNumber: batch[failed].sequenceNumber };
+    }
+    published += batch.length;
+  }
+  return { published };
+}
+
+/** The JSON representation of an event, with amounts and balances as decimal strings. */
+export function encodeLedgerEvent(event: LedgerEvent): string {
+  return JSON.stringify(event, bigintsAsStrings);
+}
+
+export function decodeLedgerEvent(body: string): LedgerEvent {
+  return JSON.parse(body, (key, value) =>
+    AMOUNT_FIELDS.has(key) && typeof value === "string" ? BigInt(value) : value,
+  );
+}
@@ -0,0 +1,101 @@
+import * as ddc from "@aws-sdk/lib-dynamodb";
+import { ValidationError } from "./errors.js";
+import {
+  CreateTransfersOptions,
+  CreateTransfersResult,
+  Transfer,
+  TransferFlags,
+  createTransfersBatch,
+} from "./transactions.js";
+
+/**
+ * An exchange of one currency for another, between accounts on different ledgers. It is made of two transfers, one on
+ * each ledger, through a liquidity account on either side: the source transfer pays the amount into the source ledger's
+ * liquidity account, and the destination transfer pays the exchanged amount out of the destination ledger's. Each ledger
+ * stays balanced by itself, and the two transfers are linked, so that the exchange happens as a whole or not at all.
+ */
+export interface CurrencyExchange {
+  /** Identifies the exchange; its transfers get the ids `<id>.source` and `<id>.destination`. */
+  id: Transfer["id"];
+  /** The account paying in the source currency. */
+  debit_account_id: Transfer["debit_account_id"];
+  /** The account receiving the destination currency. */
+  credit_account_id: Transfer["credit_account_id"];
+  source_ledger: Transfer["ledger"];
+  destination_ledger: Transfer["ledger"];
+  /** Takes in the amount, on the source ledger. */
+  source_liquidity_account_id: Transfer["credit_account_id"];
+  /** Pays out the exchanged amount, on the destination ledger. */
+  destination_liquidity_account_id: Transfer["debit_account_id"];
+  /** In the source ledger's minor units. */
+  amount: Transfer["amount"];
+  /**
+   * Destination minor units per source minor unit, as a decimal string such as "0.9214". The exchanged amount is rounded
+   * down to a whole minor unit.
+   */
+  rate: string;
+  user_data?: Transfer["user_data"];
+  code?: Transfer["code"];
+}
+
+/**
+ * The linked pair of transfers that make up a currency exchange, for submitting along with other transfers in a batch.
+ */
+export function currencyExchangeTransfers(exchange: CurrencyExchange): [Transfer, Transfer] {
+  const { id, source_ledger, destination_ledger, amount, rate, user_data, code } = exchange;
+  if (source_ledger === destination_ledger) {
+    throw new ValidationError(`Currency exchange ${id}: source and destination ledgers must be different`);
+  }
+  const common = {
+    timeout: 0,
+    amount,
+    ...(user_data !== undefined ? { user_data } : {}),
+    ...(code !== undefined ? { code } : {}),
+    exchange_id: id,
+    exchange_rate: rate,
+  };
+  return [
+    {
+      ...common,
+      id: `${id}.source`,
+      debit_account_id: exchange.debit_account_id,
+      credit_account_id: exchange.source_liquidity_account_id,
+      ledger: source_ledger,
+      flags: TransferFlags.LINKED,
+    },
+    {
+      ...common,
+      id: `${id}.destination`,
+      debit_account_id: exchange.destination_liquidity_account_id,
+      credit_account_id: exchange.credit_account_id,
+      ledger: destination_ledger,
+      amount: exchangedAmount(id, amount, rate),
+    },
+  ];
+}
+
+/**
+ * Commits a currency exchange by itself. Strict accounts are recommended, so that each transfer is checked against the
+ * ledgers of its accounts.
+ */
+export async function createCurrencyExchange(
+  documentClient: ddc.DynamoDBDocumentClient,
+  tableName: string,
+  exchange: CurrencyExchange,
+  retry?: (fn: () => Promise<CreateTransfersResult>) => Promise<CreateTransfersResult>,
+  opts: CreateTransfersOptions = {},
+): Promise<CreateTransfersResult> {
+  return createTransfersBatch(documentClient, tableName, currencyExchangeTransfers(exchange), retry, opts);
+}
+
+/**
+ * Converts the amount at the given rate with exact integer arithmetic, rounding down.
+ */
+function exchangedAmount(id: CurrencyExchange["id"], amount: Transfer["amount"], rate: string): Transfer["amount"] {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(rate);
+  if (!match || !/[1-9]/.test(rate)) {
+    throw new ValidationError(`Currency exchange ${id}: rate must be a positive decimal number, got "${rate}"`);
+  }
+  const [, whole, fraction = ""] = match;
+  return (amount * BigInt(whole + fraction)) / 10n ** BigInt(fraction.length);
+}
@@ -17,8 +17,6 @@ export function generateTransfers(
     hotAccounts?: number;
   },
 ): Transfer[] {
-  const timestamp = Date.now();
-
   const transfers: Transfer[] = [];
 
   for (let i = 0; i < count; i++) {
@@ -44,14 +42,13 @@ export function generateTransfers(
     transfers.push({
       id: ulid(),
       ledger: 700,
-      amount: randomInt(0, 10_000),
+      amount: BigInt(randomInt(0, 10_000)),
       debit_account_id: fromAccount,
       credit_account_id: toAccount,
       code: 0,
       flags: 0,
       pending_id: undefined,
       timeout: 0,
-      timestamp,
     });
   }
 
@@ -0,0 +1,20 @@
+import * as dynamodb from "@aws-sdk/client-dynamodb";
+import * as ddc from "@aws-sdk/lib-dynamodb";
+import { APIGatewayProxyHandlerV2 } from "aws-lambda";
+import { handleApiRequest } from "../api.js";
+import { DynamoDbLedgerStore } from "../store.js";
+
+const TABLE_NAME = process.env["TABLE_NAME"] ?? "transactions";
+
+const documentClient = ddc.DynamoDBDocumentClient.from(new dynamodb.DynamoDBClient({}), {
+  marshallOptions: { removeUndefinedValues: true },
+});
+const store = new DynamoDbLedgerStore(documentClient, TABLE_NAME);
+
+export const handler: APIGatewayProxyHandlerV2 = async (event) =>
+  handleApiRequest(store, {
+    method: event.requestContext.http.method,
+    path: event.rawPath,
+    query: event.queryStringParameters ?? {},
+    body: event.body && event.isBase64Encoded ? Buffer.from(event.body, "base64").toString("utf8") : event.body,
+  });
@@ -6,6 +6,7 @@ import { inspect } from "util";
 import { AccountSelectionStrategy } from "../generators.js";
 import { LoadTestDriver } from "../load-test-runner.js";
 import { CreateTransfersLoadTest, ReadAccountBalancesLoadTest } from "../load-tests.js";
+import { DynamoDbLedgerStore } from "../store.js";
 
 inspect.defaultOptions.depth = 5;
 
@@ -24,6 +25,7 @@ const dynamoDbClient = new dynamodb.DynamoDBClient({
 const documentClient = ddc.DynamoDBDocumentClient.from(dynamoDbClient, {
   marshallOptions: { removeUndefinedValues: true },
 });
+const store = new DynamoDbLedgerStore(documentClient, TABLE_NAME);
 
 // TODO: Validate requests.
 export const handler: Handler = async (event, context) => {
@@ -49,8 +51,7 @@ export const handler: Handler = async (event, context) => {
 
   const writeDriver = new LoadTestDriver(
     new CreateTransfersLoadTest({
-      documentClient,
-      tableName: TABLE_NAME,
+      store,
       batchSize: writeBatchSize,
       numAccounts,
       hotAccounts,
@@ -66,8 +67,7 @@ export const handler: Handler = async (event, context) => {
 
   const readDriver = new LoadTestDriver(
     new ReadAccountBalancesLoadTest({
-      documentClient,
-      tableName: TABLE_NAME,
+      store,
       numAccounts,
       batchSize: readBatchSize,
     }),
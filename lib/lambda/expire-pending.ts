@@ -0,0 +1,23 @@
+import * as dynamodb from "@aws-sdk/client-dynamodb";
+import * as ddc from "@aws-sdk/lib-dynamodb";
+import { Handler } from "aws-lambda";
+import { expirePendingTransfers } from "../transactions.js";
+
+const TABLE_NAME = process.env["TABLE_NAME"] ?? "transactions";
+
+const documentClient = ddc.DynamoDBDocumentClient.from(new dynamodb.DynamoDBClient({}));
+
+export const handler: Handler = async (_event, context) => {
+  const now = Date.now();
+  let expired = 0;
+  let cursor: string | undefined;
+  // Leave whatever doesn't fit in this invocation, or couldn't be expired, to the next scheduled one
+  do {
+    const result = await expirePendingTransfers(documentClient, TABLE_NAME, { now, cursor });
+    expired += result.expired.length;
+    cursor = result.expired.length > 0 ? result.cursor : undefined;
+  } while (cursor && context.getRemainingTimeInMillis() > 10_000);
+  const more = cursor !== undefined;
+  console.log({ message: "Expired pending transfers", expired, more });
+  return { expired, more };
+};
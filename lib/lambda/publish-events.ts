@@ -0,0 +1,14 @@
+import * as sqs from "@aws-sdk/client-sqs";
+import { DynamoDBStreamHandler } from "aws-lambda";
+import { publishLedgerEvents } from "../events.js";
+
+const QUEUE_URL = process.env["QUEUE_URL"] ?? "";
+
+const sqsClient = new sqs.SQSClient({});
+
+export const handler: DynamoDBStreamHandler = async (event) => {
+  const { published, failedSequenceNumber } = await publishLedgerEvents(sqsClient, QUEUE_URL, event.Records);
+  console.log({ message: "Published ledger events", records: event.Records.length, published, failedSequenceNumber });
+  // The stream is retried from the first record that failed, which keeps the events in order
+  return { batchItemFailures: failedSequenceNumber ? [{ itemIdentifier: failedSequenceNumber }] : [] };
+};
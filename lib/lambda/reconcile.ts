@@ -0,0 +1,23 @@
+import * as dynamodb from "@aws-sdk/client-dynamodb";
+import * as ddc from "@aws-sdk/lib-dynamodb";
+import { Handler } from "aws-lambda";
+import { inspect } from "util";
+import { reconcile } from "../reconciliation.js";
+import { bigintsAsStrings } from "../transactions.js";
+
+inspect.defaultOptions.depth = 5;
+
+const TABLE_NAME = process.env["TABLE_NAME"] ?? "transactions";
+const SCAN_SEGMENTS = Number.parseInt(process.env["SCAN_SEGMENTS"] ?? "8");
+
+const documentClient = ddc.DynamoDBDocumentClient.from(new dynamodb.DynamoDBClient({}));
+
+export const handler: Handler = async (event) => {
+  const report = await reconcile(documentClient, TABLE_NAME, { segments: event?.segments ?? SCAN_SEGMENTS });
+  const result = JSON.parse(JSON.stringify(report, bigintsAsStrings));
+  console.log({
+    message: report.drift.length > 0 ? "Balance drift detected" : "Balances reconciled",
+    ...result,
+  });
+  return result;
+};
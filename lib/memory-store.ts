@@ -0,0 +1,350 @@
+import { AccountExistsError } from "./errors.js";
+import { LedgerStore } from "./store.js";
+import {
+  Account,
+  AccountFlags,
+  CreateTransfersOptions,
+  CreateTransfersResult,
+  GetAccountsResult,
+  LookupTransfersResult,
+  MAX_AMOUNT,
+  PendingStatus,
+  PendingTransferItem,
+  Transfer,
+  TransferFlags,
+  TransferResult,
+  TransactionResult,
+  existingTransferResult,
+  failChain,
+  isApplied,
+  linkedChains,
+  overallResult,
+  resolvePendingTransfer,
+  validateAccounts,
+  validateTransfer,
+} from "./transactions.js";
+
+type Amount = Transfer["amount"];
+type Timestamp = NonNullable<Transfer["timestamp"]>;
+type Balance = "debits_pending" | "debits_posted" | "credits_pending" | "credits_posted";
+
+const OVERFLOWS: Record<Balance, TransferResult> = {
+  debits_pending: TransferResult.OVERFLOWS_DEBITS_PENDING,
+  debits_posted: TransferResult.OVERFLOWS_DEBITS_POSTED,
+  credits_pending: TransferResult.OVERFLOWS_CREDITS_PENDING,
+  credits_posted: TransferResult.OVERFLOWS_CREDITS_POSTED,
+};
+
+/**
+ * A ledger kept in memory, for tests and for load testing the transfer logic by itself.
+ *
+ * Transfers are checked against the same rules as in DynamoDB, and a batch has the same outcome: linked chains are
+ * applied as a unit in batch order, and a chain that fails is left out without affecting the others. Sharded accounts
+ * are kept as a single account, since shards only exist to spread the writes. Balance history is not kept, and accounts
+ * created on first use are on the ledger of the transfer that created them.
+ */
+export class InMemoryLedgerStore implements LedgerStore {
+  private readonly accounts: Map<Account["id"], Account> = new Map();
+  private readonly transfers: Map<Transfer["id"], PendingTransferItem> = new Map();
+  /** The latest timestamp assigned. */
+  private clock: Timestamp = 0;
+
+  async createAccounts(accounts: Account[]): Promise<void> {
+    validateAccounts(accounts);
+    const existing = accounts.filter(({ id }) => this.accounts.has(id)).map(({ id }) => id);
+    if (existing.length > 0) {
+      throw new AccountExistsError(existing);
+    }
+    for (const account of accounts) {
+      const { flags, shards, ...rest } = account;
+      this.accounts.set(
+        account.id,
+        withoutUndefined({
+          ...rest,
+          timestamp: this.nextTimestamp(),
+          ...(flags ? { flags } : {}),
+          ...(shards !== undefined && shards > 1 ? { shards } : {}),
+        }),
+      );
+    }
+  }
+
+  async getAccount(id: Account["id"]): Promise<Account | undefined> {
+    const account = this.accounts.get(id);
+    return account && { ...account };
+  }
+
+  async getAccounts(ids: Account["id"][]): Promise<GetAccountsResult> {
+    return {
+      accounts: ids.filter((id) => this.accounts.has(id)).map((id) => ({ ...this.accounts.get(id)! })),
+      consumedReadCapacity: 0,
+      $metadata: {},
+    };
+  }
+
+  async createTransfers(
+    batch: Transfer[],
+    _retry?: (fn: () => Promise<CreateTransfersResult>) => Promise<CreateTransfersResult>,
+    opts: CreateTransfersOptions = {},
+  ): Promise<CreateTransfersResult> {
+    const results = batch.map((transfer) => validateTransfer(transfer, opts) ?? TransferResult.OK);
+    const balancedAmounts: (Amount | undefined)[] = batch.map(() => undefined);
+    const timestamps: (Timestamp | undefined)[] = batch.map(() => undefined);
+    const transaction: TransactionResult = {
+      transfers: [],
+      committed: false,
+      itemsWritten: 0,
+      consumedWriteCapacity: 0,
+    };
+    const itemsWritten: Set<string> = new Set();
+
+    for (const chain of linkedChains(batch, results)) {
+      const transfers = chain.filter((i) => results[i] === TransferResult.OK);
+      if (transfers.length === 0) {
+        continue;
+      }
+      transaction.transfers.push(...transfers);
+
+      // Each chain works on copies of what it touches, which only replace the originals if all of it succeeds
+      const accounts: Map<Account["id"], Account> = new Map();
+      const written: Map<Transfer["id"], PendingTransferItem> = new Map();
+      // Repeats of a transfer earlier in the chain fail along with it
+      const repeats = transfers.filter((i) => transfers.some((j) => j < i && batch[j].id === batch[i].id));
+      for (const i of transfers) {
+        // DynamoDB writes a pending transfer along with its post or void later in the chain, which have no reason of
+        // their own to fail when it does
+        const resolves = isFlagSet(
+          batch[i].flags,
+          TransferFlags.POST_PENDING_TRANSFER | TransferFlags.VOID_PENDING_TRANSFER,
+        );
+        const createdInChain = resolves
+          ? transfers.find((j) => j < i && batch[j].id === batch[i].pending_id)
+          : undefined;
+        const applied =
+          createdInChain !== undefined && !isApplied(results[createdInChain])
+            ? { result: TransferResult.LINKED_EVENT_FAILED }
+            : this.apply(batch[i], accounts, written, opts);
+        results[i] = applied.result;
+        balancedAmounts[i] = applied.balancedAmount;
+        timestamps[i] = applied.timestamp;
+      }
+      if (transfers.some((i) => results[i] !== TransferResult.OK && results[i] !== TransferResult.EXISTS)) {
+        repeats
+          .filter((i) => results[i] === TransferResult.EXISTS)
+          .forEach((i) => (results[i] = TransferResult.LINKED_EVENT_FAILED));
+        failChain(chain, results);
+        chain.forEach((i) => (balancedAmounts[i] = timestamps[i] = undefined));
+        continue;
+      }
+      for (const [id, account] of accounts) {
+        this.accounts.set(id, account);
+        itemsWritten.add(`account#${id}`);
+      }
+      for (const [id, transfer] of written) {
+        this.transfers.set(id, transfer);
+        itemsWritten.add(`transfer#${id}`);
+      }
+    }
+    // As in a DynamoDB transaction, the updates to an account from across the batch count as one write
+    transaction.itemsWritten = itemsWritten.size;
+    transaction.committed = itemsWritten.size > 0;
+
+    return {
+      overallResult: overallResult(results),
+      results,
+      balancedAmounts,
+      timestamps,
+      transactions: transaction.transfers.length > 0 ? [transaction] : [],
+      itemsWritten: transaction.itemsWritten,
+      consumedWriteCapacity: 0,
+      $metadata: {},
+    };
+  }
+
+  async getTransfer(id: Transfer["id"]): Promise<Transfer | undefined> {
+    const transfer = this.transfers.get(id);
+    return transfer && transferFromStored(transfer);
+  }
+
+  async lookupTransfers(ids: Transfer["id"][]): Promise<LookupTransfersResult> {
+    return {
+      transfers: ids.filter((id) => this.transfers.has(id)).map((id) => transferFromStored(this.transfers.get(id)!)),
+      consumedReadCapacity: 0,
+      $metadata: {},
+    };
+  }
+
+  /**
+   * Applies a single transfer on top of what its chain has written so far, in the order DynamoDB evaluates the
+   * conditions on its items.
+   */
+  private apply(
+    transfer: Transfer,
+    accounts: Map<Account["id"], Account>,
+    written: Map<Transfer["id"], PendingTransferItem>,
+    opts: CreateTransfersOptions,
+  ): { result: TransferResult; balancedAmount?: Amount; timestamp?: Timestamp } {
+    const stored = (id: Transfer["id"]) => written.get(id) ?? this.transfers.get(id);
+    const existing = stored(transfer.id);
+    if (existing) {
+      return { result: existingTransferResult(transfer, existing) };
+    }
+
+    let pending: PendingTransferItem | undefined;
+    let resolved = transfer;
+    if (isFlagSet(transfer.flags, TransferFlags.POST_PENDING_TRANSFER | TransferFlags.VOID_PENDING_TRANSFER)) {
+      pending = stored(transfer.pending_id!);
+      const resolution = resolvePendingTransfer(transfer, pending);
+      if ("result" in resolution) {
+        return resolution;
+      }
+      resolved = resolution.transfer;
+    }
+
+    const accountOf = (id: Account["id"]): Account | undefined => {
+      const account = accounts.get(id) ?? this.accounts.get(id);
+      return account && { ...account };
+    };
+    const emptyAccount = (id: Account["id"]): Account =>
+      // Like an account item created on first use, by adding to its balances; it has no ledger of its own there
+      ({
+        id,
+        ledger: resolved.ledger,
+        debits_pending: 0n,
+        debits_posted: 0n,
+        credits_pending: 0n,
+        credits_posted: 0n,
+      });
+    const debit = accountOf(resolved.debit_account_id);
+    const credit = accountOf(resolved.credit_account_id);
+    if (opts.strictAccounts) {
+      if (!debit || !credit) {
+        return { result: TransferResult.ACCOUNT_NOT_FOUND };
+      }
+      if (debit.ledger !== resolved.ledger || credit.ledger !== resolved.ledger) {
+        return { result: TransferResult.LEDGER_MISMATCH };
+      }
+    }
+    const debitAccount = debit ?? emptyAccount(resolved.debit_account_id);
+    // A transfer between an account and itself updates it twice
+    const creditAccount =
+      resolved.credit_account_id === resolved.debit_account_id
+        ? debitAccount
+        : (credit ?? emptyAccount(resolved.credit_account_id));
+
+    // Closed and frozen accounts still let voids through
+    if (!isFlagSet(resolved.flags, TransferFlags.VOID_PENDING_TRANSFER)) {
+      if (isFlagSet(debitAccount.flags, AccountFlags.CLOSED)) {
+        return { result: TransferResult.DEBIT_ACCOUNT_CLOSED };
+      }
+      if (isFlagSet(creditAccount.flags, AccountFlags.CLOSED)) {
+        return { result: TransferResult.CREDIT_ACCOUNT_CLOSED };
+      }
+      if (isFlagSet(debitAccount.flags, AccountFlags.DEBITS_FROZEN)) {
+        return { result: TransferResult.DEBITS_FROZEN };
+      }
+      if (isFlagSet(creditAccount.flags, AccountFlags.CREDITS_FROZEN)) {
+        return { result: TransferResult.CREDITS_FROZEN };
+      }
+    }
+
+    let amount = resolved.amount;
+    const balancing = isFlagSet(resolved.flags, TransferFlags.BALANCING_DEBIT | TransferFlags.BALANCING_CREDIT);
+    if (isFlagSet(resolved.flags, TransferFlags.BALANCING_DEBIT)) {
+      amount = clamp(amount, debitHeadroom(debitAccount));
+    }
+    if (isFlagSet(resolved.flags, TransferFlags.BALANCING_CREDIT)) {
+      amount = clamp(amount, creditHeadroom(creditAccount));
+    }
+
+    const debitHeadroomBefore = debitHeadroom(debitAccount);
+    const creditHeadroomBefore = creditHeadroom(creditAccount);
+    if (pending) {
+      debitAccount.debits_pending -= pending.amount;
+      creditAccount.credits_pending -= pending.amount;
+      if (isFlagSet(resolved.flags, TransferFlags.POST_PENDING_TRANSFER)) {
+        debitAccount.debits_posted += amount;
+        creditAccount.credits_posted += amount;
+      }
+    } else if (isFlagSet(resolved.flags, TransferFlags.PENDING)) {
+      debitAccount.debits_pending += amount;
+      creditAccount.credits_pending += amount;
+    } else {
+      debitAccount.debits_posted += amount;
+      creditAccount.credits_posted += amount;
+    }
+
+    for (const account of new Set([debitAccount, creditAccount])) {
+      const overflowing = (Object.keys(OVERFLOWS) as Balance[]).find((balance) => account[balance] > MAX_AMOUNT);
+      if (overflowing) {
+        return { result: OVERFLOWS[overflowing] };
+      }
+    }
+    // Limits only hold back transfers that eat into the headroom, not ones that release it
+    const debitHeadroomAfter = debitHeadroom(debitAccount);
+    if (
+      isFlagSet(debitAccount.flags, AccountFlags.DEBITS_MUST_NOT_EXCEED_CREDITS) &&
+      debitHeadroomAfter < debitHeadroomBefore &&
+      debitHeadroomAfter < 0n
+    ) {
+      return { result: TransferResult.INSUFFICIENT_FUNDS };
+    }
+    const creditHeadroomAfter = creditHeadroom(creditAccount);
+    if (
+      isFlagSet(creditAccount.flags, AccountFlags.CREDITS_MUST_NOT_EXCEED_DEBITS) &&
+      creditHeadroomAfter < creditHeadroomBefore &&
+      creditHeadroomAfter < 0n
+    ) {
+      return { result: TransferResult.EXCEEDS_DEBITS };
+    }
+
+    accounts.set(debitAccount.id, debitAccount);
+    accounts.set(creditAccount.id, creditAccount);
+    if (pending) {
+      const status = isFlagSet(resolved.flags, TransferFlags.POST_PENDING_TRANSFER)
+        ? PendingStatus.POSTED
+        : PendingStatus.VOIDED;
+      written.set(pending.id, { ...pending, pending_status: status });
+    }
+    const timestamp = this.nextTimestamp();
+    const pendingFields: Partial<PendingTransferItem> = isFlagSet(resolved.flags, TransferFlags.PENDING)
+      ? {
+          pending_status: PendingStatus.PENDING,
+          ...(resolved.timeout > 0 ? { expires_at: timestamp + resolved.timeout * 1000 } : {}),
+        }
+      : {};
+    written.set(resolved.id, withoutUndefined({ ...resolved, amount, timestamp, ...pendingFields }));
+
+    return { result: TransferResult.OK, timestamp, ...(balancing ? { balancedAmount: amount } : {}) };
+  }
+
+  /** Like the table's clock: unique, increasing, and close to the current time. */
+  private nextTimestamp(): Timestamp {
+    this.clock = Math.max(Date.now(), this.clock + 1);
+    return this.clock;
+  }
+}
+
+function debitHeadroom(account: Account): Amount {
+  return account.credits_posted - account.debits_posted - account.debits_pending;
+}
+
+function creditHeadroom(account: Account): Amount {
+  return account.debits_posted - account.credits_posted - account.credits_pending;
+}
+
+function clamp(amount: Amount, headroom: Amount): Amount {
+  return headroom <= 0n ? 0n : headroom < amount ? headroom : amount;
+}
+
+function isFlagSet(flags: number | undefined, mask: number): boolean {
+  return ((flags ?? 0) & mask) !== 0;
+}
+
+function transferFromStored({ expires_at, ...transfer }: PendingTransferItem): Transfer {
+  return { ...transfer };
+}
+
+function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
@@ -0,0 +1,199 @@
+import * as ddc from "@aws-sdk/lib-dynamodb";
+import { Account, BALANCES, Balances, PendingStatus, TransferFlags, balancesFromItem } from "./transactions.js";
+
+export interface AccountDrift {
+  account_id: Account["id"];
+  /** The balances recomputed from the stored transfers, on top of the balances the account was opened with. */
+  expected: Balances;
+  /** The balances on the account item; all zero if there is no account item. */
+  actual: Balances;
+  /** Actual minus expected, per balance. */
+  difference: Balances;
+  /**
+   * The transfers behind the balances that are off: those whose amount matches the difference, if any do, otherwise
+   * all of them, up to MAX_REPORTED_TRANSFERS.
+   */
+  transfer_ids: string[];
+}
+
+export interface ReconciliationReport {
+  startTime: string;
+  endTime: string;
+  accountsChecked: number;
+  transfersScanned: number;
+  drift: AccountDrift[];
+  consumedReadCapacity: number;
+}
+
+export interface ReconciliationOptions {
+  /** The number of scan segments to read in parallel; defaults to 8. */
+  segments?: number;
+}
+
+const MAX_REPORTED_TRANSFERS = 100;
+
+/**
+ * Recomputes every account's balances from the stored transfers and reports the accounts whose balances don't match.
+ *
+ * The table is scanned in parallel segments, and only scanned a second time to find the transfers behind any drift.
+ * Transfers committed while the scan is in progress may show up as drift; run it again to confirm.
+ */
+export async function reconcile(
+  client: ddc.DynamoDBDocumentClient,
+  tableName: string,
+  opts: ReconciliationOptions = {},
+): Promise<ReconciliationReport> {
+  const startTime = new Date().toISOString();
+  const segments = opts.segments ?? 8;
+
+  const expected: Map<Account["id"], Balances> = new Map();
+  const actual: Map<Account["id"], Balances> = new Map();
+  let transfersScanned = 0;
+  let consumedReadCapacity = await scanTable(client, tableName, segments, (item) => {
+    if (isAccountItem(item)) {
+      const id = accountIdOf(item);
+      // Sharded accounts' balances are spread over several items
+      addBalances(balancesOf(actual, id), balancesFromItem(item));
+      // Accounts may be opened with non-zero balances
+      addBalances(balancesOf(expected, id), balancesFromItem(item.opening_balances ?? {}));
+    } else if (isTransferItem(item)) {
+      transfersScanned += 1;
+      for (const [id, contribution] of transferContributions(item)) {
+        addBalances(balancesOf(expected, id), contribution);
+      }
+    }
+  });
+
+  const drift: AccountDrift[] = [];
+  for (const id of new Set([...expected.keys(), ...actual.keys()])) {
+    const e = balancesOf(expected, id);
+    const a = actual.get(id) ?? zeroBalances();
+    const difference = Object.fromEntries(BALANCES.map((b) => [b, a[b] - e[b]])) as Balances;
+    if (BALANCES.some((b) => difference[b] !== 0n)) {
+      drift.push({ account_id: id, expected: e, actual: a, difference, transfer_ids: [] });
+    }
+  }
+
+  if (drift.length > 0) {
+    const byAccount = new Map(
+      drift.map((d) => [d.account_id, { drift: d, matching: [] as string[], all: [] as string[] }]),
+    );
+    consumedReadCapacity += await scanTable(client, tableName, segments, (item) => {
+      if (!isTransferItem(item)) {
+        return;
+      }
+      for (const [id, contribution] of transferContributions(item)) {
+        const account = byAccount.get(id);
+        const off = BALANCES.filter((b) => account && account.drift.difference[b] !== 0n && contribution[b] !== 0n);
+        if (!account || off.length === 0) {
+          continue;
+        }
+        account.all.push(item.id);
+        if (off.some((b) => abs(account.drift.difference[b]) === abs(contribution[b]))) {
+          account.matching.push(item.id);
+        }
+      }
+    });
+    for (const { drift, matching, all } of byAccount.values()) {
+      drift.transfer_ids = (matching.length > 0 ? matching : all).sort().slice(0, MAX_REPORTED_TRANSFERS);
+    }
+  }
+
+  return {
+    startTime,
+    endTime: new Date().toISOString(),
+    accountsChecked: new Set([...expected.keys(), ...actual.keys()]).size,
+    transfersScanned,
+    drift: drift.sort((a, b) => a.account_id - b.account_id),
+    consumedReadCapacity,
+  };
+}
+
+/**
+ * The balance changes a stored transfer accounts for. Pending transfers only count while still pending; once posted,
+ * the post transfer carries the final amount, and voided ones leave no trace.
+ */
+function transferContributions(item: Record<string, any>): [Account["id"], Balances][] {
+  const flags = item.flags ?? TransferFlags.NONE;
+  const amount = BigInt(item.amount);
+  const debit = zeroBalances();
+  const credit = zeroBalances();
+  if (flags & TransferFlags.PENDING) {
+    if (item.pending_status === PendingStatus.PENDING) {
+      debit.debits_pending = amount;
+      credit.credits_pending = amount;
+    }
+  } else if (!(flags & TransferFlags.VOID_PENDING_TRANSFER)) {
+    debit.debits_posted = amount;
+    credit.credits_posted = amount;
+  }
+  return [
+    [item.debit_account_id, debit],
+    [item.credit_account_id, credit],
+  ];
+}
+
+async function scanTable(
+  client: ddc.DynamoDBDocumentClient,
+  tableName: string,
+  segments: number,
+  visit: (item: Record<string, any>) => void,
+): Promise<number> {
+  const consumed = await Promise.all(
+    Array.from({ length: segments }, async (_, segment) => {
+      let consumedReadCapacity = 0;
+      let startKey: Record<string, any> | undefined;
+      do {
+        const result: ddc.ScanCommandOutput = await client.send(
+          new ddc.ScanCommand({
+            TableName: tableName,
+            Segment: segment,
+            TotalSegments: segments,
+            ConsistentRead: true,
+            ExclusiveStartKey: startKey,
+            ReturnConsumedCapacity: "TOTAL",
+          }),
+        );
+        (result.Items ?? []).forEach(visit);
+        consumedReadCapacity += result.ConsumedCapacity?.CapacityUnits ?? 0;
+        startKey = result.LastEvaluatedKey;
+      } while (startKey);
+      return consumedReadCapacity;
+    }),
+  );
+  return consumed.reduce((acc, c) => acc + c, 0);
+}
+
+function isAccountItem(item: Record<string, any>): boolean {
+  // Balance snapshots share the account's partition key
+  return item.pk.startsWith("account#") && item.sk === item.pk;
+}
+
+function isTransferItem(item: Record<string, any>): boolean {
+  return item.pk.startsWith("transfer#");
+}
+
+function accountIdOf(item: Record<string, any>): Account["id"] {
+  return Number.parseInt(item.pk.split("#")[1]);
+}
+
+function balancesOf(balances: Map<Account["id"], Balances>, id: Account["id"]): Balances {
+  let b = balances.get(id);
+  if (!b) {
+    b = zeroBalances();
+    balances.set(id, b);
+  }
+  return b;
+}
+
+function addBalances(total: Balances, balances: Balances) {
+  BALANCES.forEach((b) => (total[b] += balances[b]));
+}
+
+function zeroBalances(): Balances {
+  return { debits_pending: 0n, debits_posted: 0n, credits_pending: 0n, credits_posted: 0n };
+}
+
+function abs(amount: bigint): bigint {
+  return amount < 0n ? -amount : amount;
+}
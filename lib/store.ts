@@ -0,0 +1,74 @@
+import * as ddc from "@aws-sdk/lib-dynamodb";
+import { withLedgerErrors } from "./errors.js";
+import {
+  Account,
+  CreateTransfersOptions,
+  CreateTransfersResult,
+  GetAccountsResult,
+  LookupTransfersResult,
+  Transfer,
+  createAccountsBatch,
+  createTransfersBatch,
+  getAccount,
+  getAccountsBatch,
+  getTransfer,
+  lookupTransfers,
+} from "./transactions.js";
+
+/**
+ * Where the ledger's accounts and transfers are kept. Application code written against this interface can run on
+ * DynamoDB, or on the in-memory store in tests, which follows the same rules without needing DynamoDB Local. Failures
+ * are thrown as LedgerErrors.
+ */
+export interface LedgerStore {
+  /** Creates the accounts as a whole; throws if any of them is invalid or already exists. */
+  createAccounts(accounts: Account[]): Promise<void>;
+  getAccount(id: Account["id"]): Promise<Account | undefined>;
+  getAccounts(ids: Account["id"][]): Promise<GetAccountsResult>;
+  /** As createTransfersBatch; the retry strategy only comes into play for stores with concurrency conflicts. */
+  createTransfers(
+    batch: Transfer[],
+    retry?: (fn: () => Promise<CreateTransfersResult>) => Promise<CreateTransfersResult>,
+    opts?: CreateTransfersOptions,
+  ): Promise<CreateTransfersResult>;
+  getTransfer(id: Transfer["id"]): Promise<Transfer | undefined>;
+  lookupTransfers(ids: Transfer["id"][]): Promise<LookupTransfersResult>;
+}
+
+/**
+ * The ledger in a DynamoDB table, as laid out by the functions in transactions.ts.
+ */
+export class DynamoDbLedgerStore implements LedgerStore {
+  constructor(
+    private readonly client: ddc.DynamoDBDocumentClient,
+    private readonly tableName: string,
+  ) {}
+
+  createAccounts(accounts: Account[]): Promise<void> {
+    return createAccountsBatch(this.client, this.tableName, accounts);
+  }
+
+  getAccount(id: Account["id"]): Promise<Account | undefined> {
+    return withLedgerErrors(() => getAccount(this.client, this.tableName, id));
+  }
+
+  getAccounts(ids: Account["id"][]): Promise<GetAccountsResult> {
+    return withLedgerErrors(() => getAccountsBatch(this.client, this.tableName, ids));
+  }
+
+  createTransfers(
+    batch: Transfer[],
+    retry?: (fn: () => Promise<CreateTransfersResult>) => Promise<CreateTransfersResult>,
+    opts: CreateTransfersOptions = {},
+  ): Promise<CreateTransfersResult> {
+    return createTransfersBatch(this.client, this.tableName, batch, retry, opts);
+  }
+
+  getTransfer(id: Transfer["id"]): Promise<Transfer | undefined> {
+    return withLedgerErrors(() => getTransfer(this.client, this.tableName, id));
+  }
+
+  lookupTransfers(ids: Transfer["id"][]): Promise<LookupTransfersResult> {
+    return withLedgerErrors(() => lookupTransfers(this.client, this.tableName, ids));
+  }
+}
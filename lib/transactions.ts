@@ -1,8 +1,20 @@
+import * as dynamodb from "@aws-sdk/client-dynamodb";
 import * as ddc from "@aws-sdk/lib-dynamodb";
 import { TransactWriteCommandInput } from "@aws-sdk/lib-dynamodb";
-import { MetadataBearer } from "@aws-sdk/types";
-import assert from "assert";
-import { randomUUID } from "crypto";
+import { MetadataBearer, ResponseMetadata } from "@aws-sdk/types";
+import { unmarshall } from "@aws-sdk/util-dynamodb";
+import { createHash, randomUUID } from "crypto";
+import { setTimeout } from "timers/promises";
+import {
+  AccountExistsError,
+  AccountNotFoundError,
+  ConflictError,
+  ThrottledError,
+  TransferConflictError,
+  ValidationError,
+  ledgerError,
+  withLedgerErrors,
+} from "./errors.js";
 
 export interface Transfer {
   id: IdType;
@@ -10,12 +22,21 @@ export interface Transfer {
   credit_account_id: AccountId;
   user_data?: ExternalId;
   pending_id?: IdType;
+  /** Seconds after its timestamp that a pending transfer expires, unless posted or voided by then; 0 for never. */
   timeout: Timeout;
   ledger: LedgerId;
   code?: Reason;
   flags?: TransferFlags;
   amount: Amount;
+  /**
+   * Assigned by the ledger when the transfer is committed, in milliseconds since the epoch. Unique, and increasing in
+   * commit order across all transfers and accounts. It must be left unset when creating transfers.
+   */
   timestamp?: Timestamp;
+  /** Set on both transfers of a currency exchange, to tie them together. */
+  exchange_id?: IdType;
+  /** The rate of the currency exchange the transfer is part of, as a decimal string. */
+  exchange_rate?: string;
 }
 
 export interface Account {
@@ -28,25 +49,308 @@ export interface Account {
   debits_posted: Amount;
   credits_pending: Amount;
   credits_posted: Amount;
+  /** Assigned by the ledger when the account is created, from the same clock as transfer timestamps. */
   timestamp?: Timestamp;
+  /**
+   * Spread the account's balances over this many items, to take more writes per second than a single item can. Fixed
+   * when the account is created; balance limits are enforced per shard, so a single transfer can only draw on the
+   * headroom of one of them. See EXCEEDS_SHARD_HEADROOM.
+   */
+  shards?: number;
+}
+
+export type Balances = Pick<Account, "debits_pending" | "debits_posted" | "credits_pending" | "credits_posted">;
+
+export enum TransferFlags {
+  NONE = 0,
+  /** Link this transfer with the next one in the batch; a chain of linked transfers succeeds or fails as a unit. */
+  LINKED = 1 << 0,
+  /** Reserve the amount in the pending balances of both accounts until it is posted or voided. */
+  PENDING = 1 << 1,
+  /** Post the pending transfer referenced by `pending_id`, for its full amount or less. */
+  POST_PENDING_TRANSFER = 1 << 2,
+  /** Void the pending transfer referenced by `pending_id`, releasing the reserved amount. */
+  VOID_PENDING_TRANSFER = 1 << 3,
+  /**
+   * Treat the amount as a ceiling, and transfer no more than keeps the debit account's debits (pending and posted) within
+   * its posted credits.
+   */
+  BALANCING_DEBIT = 1 << 4,
+  /**
+   * Treat the amount as a ceiling, and transfer no more than keeps the credit account's credits (pending and posted)
+   * within its posted debits.
+   */
+  BALANCING_CREDIT = 1 << 5,
+}
+
+export enum AccountFlags {
+  NONE = 0,
+  /** Reject transfers that would make the account's debits (pending and posted) exceed its posted credits. */
+  DEBITS_MUST_NOT_EXCEED_CREDITS = 1 << 1,
+  /** Reject transfers that would make the account's credits (pending and posted) exceed its posted debits. */
+  CREDITS_MUST_NOT_EXCEED_DEBITS = 1 << 2,
+  /** Keep a snapshot of the account's balances after every transfer, for point-in-time balance queries. */
+  HISTORY = 1 << 3,
+  /** Set by closeAccount: the account takes no more transfers, other than voids of its pending transfers. */
+  CLOSED = 1 << 4,
+  /** Set by freezeAccount: transfers debiting the account are rejected until it is unfrozen. */
+  DEBITS_FROZEN = 1 << 5,
+  /** Set by freezeAccount: transfers crediting the account are rejected until it is unfrozen. */
+  CREDITS_FROZEN = 1 << 6,
+}
+
+export enum PendingStatus {
+  PENDING = "PENDING",
+  POSTED = "POSTED",
+  VOIDED = "VOIDED",
+  /** Voided by expirePendingTransfers once its timeout elapsed. */
+  EXPIRED = "EXPIRED",
 }
 
 export enum TransferResult {
   OK = "OK",
+  /** Not applied because another transfer in the same transaction failed. */
+  BATCH_CANCELLED = "BATCH_CANCELLED",
+  /** Not applied because another transfer in the same linked chain failed. */
+  LINKED_EVENT_FAILED = "LINKED_EVENT_FAILED",
+  /** The last transfer in the batch is flagged as linked, leaving its chain unterminated. */
+  LINKED_EVENT_CHAIN_OPEN = "LINKED_EVENT_CHAIN_OPEN",
+  /** The linked chain needs more items than fit into a single DynamoDB transaction. */
+  LINKED_EVENT_CHAIN_TOO_LARGE = "LINKED_EVENT_CHAIN_TOO_LARGE",
+  /** A transfer with the same id and fields already exists. */
+  EXISTS = "EXISTS",
+  /** A different transfer with the same id already exists. */
+  EXISTS_WITH_DIFFERENT_FIELDS = "EXISTS_WITH_DIFFERENT_FIELDS",
+  /** Lost out to concurrent transactions on the same items, even after retrying. */
+  CONFLICT = "CONFLICT",
+  ACCOUNT_NOT_FOUND = "ACCOUNT_NOT_FOUND",
+  LEDGER_MISMATCH = "LEDGER_MISMATCH",
+  ACCOUNTS_MUST_BE_DIFFERENT = "ACCOUNTS_MUST_BE_DIFFERENT",
   INSUFFICIENT_FUNDS = "INSUFFICIENT_FUNDS",
+  EXCEEDS_DEBITS = "EXCEEDS_DEBITS",
+  /**
+   * The balances of a sharded account would allow the transfer as a whole, but none of its shards has enough headroom
+   * for it by itself. Split it into smaller transfers, or retry once more has been credited, or debited.
+   */
+  EXCEEDS_SHARD_HEADROOM = "EXCEEDS_SHARD_HEADROOM",
+  DEBIT_ACCOUNT_CLOSED = "DEBIT_ACCOUNT_CLOSED",
+  CREDIT_ACCOUNT_CLOSED = "CREDIT_ACCOUNT_CLOSED",
+  DEBITS_FROZEN = "DEBITS_FROZEN",
+  CREDITS_FROZEN = "CREDITS_FROZEN",
+  /** The amount is negative or larger than MAX_AMOUNT. */
+  AMOUNT_OUT_OF_RANGE = "AMOUNT_OUT_OF_RANGE",
+  /** The transfer would take one of its accounts' balances beyond MAX_AMOUNT. */
+  OVERFLOWS_DEBITS_PENDING = "OVERFLOWS_DEBITS_PENDING",
+  OVERFLOWS_DEBITS_POSTED = "OVERFLOWS_DEBITS_POSTED",
+  OVERFLOWS_CREDITS_PENDING = "OVERFLOWS_CREDITS_PENDING",
+  OVERFLOWS_CREDITS_POSTED = "OVERFLOWS_CREDITS_POSTED",
+  /** Timestamps are assigned by the ledger on commit. */
+  TIMESTAMP_MUST_NOT_BE_SET = "TIMESTAMP_MUST_NOT_BE_SET",
+  FLAGS_ARE_MUTUALLY_EXCLUSIVE = "FLAGS_ARE_MUTUALLY_EXCLUSIVE",
+  TIMEOUT_RESERVED_FOR_PENDING_TRANSFER = "TIMEOUT_RESERVED_FOR_PENDING_TRANSFER",
+  PENDING_ID_REQUIRED = "PENDING_ID_REQUIRED",
+  PENDING_ID_MUST_NOT_BE_SET = "PENDING_ID_MUST_NOT_BE_SET",
+  PENDING_ID_MUST_BE_DIFFERENT = "PENDING_ID_MUST_BE_DIFFERENT",
+  PENDING_TRANSFER_NOT_FOUND = "PENDING_TRANSFER_NOT_FOUND",
+  PENDING_TRANSFER_NOT_PENDING = "PENDING_TRANSFER_NOT_PENDING",
+  PENDING_TRANSFER_HAS_DIFFERENT_DEBIT_ACCOUNT_ID = "PENDING_TRANSFER_HAS_DIFFERENT_DEBIT_ACCOUNT_ID",
+  PENDING_TRANSFER_HAS_DIFFERENT_CREDIT_ACCOUNT_ID = "PENDING_TRANSFER_HAS_DIFFERENT_CREDIT_ACCOUNT_ID",
+  PENDING_TRANSFER_HAS_DIFFERENT_LEDGER = "PENDING_TRANSFER_HAS_DIFFERENT_LEDGER",
+  PENDING_TRANSFER_HAS_DIFFERENT_AMOUNT = "PENDING_TRANSFER_HAS_DIFFERENT_AMOUNT",
+  EXCEEDS_PENDING_TRANSFER_AMOUNT = "EXCEEDS_PENDING_TRANSFER_AMOUNT",
+  PENDING_TRANSFER_ALREADY_POSTED = "PENDING_TRANSFER_ALREADY_POSTED",
+  PENDING_TRANSFER_ALREADY_VOIDED = "PENDING_TRANSFER_ALREADY_VOIDED",
+  PENDING_TRANSFER_EXPIRED = "PENDING_TRANSFER_EXPIRED",
 }
 
 export interface CreateTransfersResult extends MetadataBearer {
+  /** OK if every transfer was applied, otherwise the result of the first transfer that failed. */
   overallResult: TransferResult;
+  /** The result for each transfer, in the order they were submitted. */
+  results: TransferResult[];
+  /** The amount each balancing transfer applied by this call actually transferred; undefined for the others. */
+  balancedAmounts: (Amount | undefined)[];
+  /** The commit timestamp of each transfer applied by this call; undefined for the others. */
+  timestamps: (Timestamp | undefined)[];
+  /** The transactions the batch was split into to stay within DynamoDB's limits. Linked chains never span two. */
+  transactions: TransactionResult[];
+  itemsWritten: number;
+  consumedWriteCapacity: number;
+}
+
+export interface TransactionResult {
+  /** Positions of the transfers in the submitted batch that were planned into this transaction. */
+  transfers: number[];
+  /** Whether any of its transfers were written; contended chains are retried in transactions of their own. */
+  committed: boolean;
   itemsWritten: number;
   consumedWriteCapacity: number;
 }
 
+export interface CreateTransfersOptions {
+  /**
+   * Require both accounts of a transfer to have been created upfront, on the transfer's ledger, and to be distinct.
+   * By default, balances are created on first use, which is convenient for benchmarking but lets the chart of accounts
+   * drift.
+   */
+  strictAccounts?: boolean;
+}
+
+export interface CloseAccountOptions {
+  /** Only close the account if its posted debits and credits are equal, and nothing is pending. */
+  requireZeroBalance?: boolean;
+}
+
+export interface ExpirePendingTransfersOptions {
+  /** Expire the pending transfers that timed out by then; defaults to the current time. */
+  now?: Timestamp;
+  /** The maximum number of pending transfers to expire in one go; defaults to 100. */
+  limit?: number;
+  /** Where the previous call left off; pass the same `now` along with it. */
+  cursor?: string;
+}
+
+export interface ExpirePendingTransfersResult extends MetadataBearer {
+  /** The pending transfers that were expired, and their reservations released. */
+  expired: IdType[];
+  /**
+   * Set if there may be more timed out pending transfers left; pass it back to carry on past the ones that couldn't be
+   * expired this time.
+   */
+  cursor?: string;
+  consumedReadCapacity: number;
+  consumedWriteCapacity: number;
+}
+
 export interface GetAccountsResult extends MetadataBearer {
   accounts: Account[] | undefined;
   consumedReadCapacity: number;
 }
 
+export enum SortDirection {
+  ASC = "ASC",
+  DESC = "DESC",
+}
+
+export interface GetAccountTransfersOptions {
+  /** Only transfers at or after this timestamp. */
+  fromTimestamp?: Timestamp;
+  /** Only transfers at or before this timestamp. */
+  toTimestamp?: Timestamp;
+  /** Oldest first by default. */
+  direction?: SortDirection;
+  /** The maximum number of transfers to return; defaults to 100. */
+  limit?: number;
+  /** Where the previous page left off. */
+  cursor?: string;
+}
+
+/** The balances of an account as of a point in time. */
+export interface AccountBalance {
+  timestamp: Timestamp;
+  /** The transfer that brought the account to these balances; unset for the balances it was created with. */
+  transfer_id?: IdType;
+  debits_pending: Amount;
+  debits_posted: Amount;
+  credits_pending: Amount;
+  credits_posted: Amount;
+}
+
+/** Either the balances as of a single point in time, or every change of balances within a timestamp range. */
+export type GetAccountBalancesOptions = { asOf: Timestamp } | { fromTimestamp?: Timestamp; toTimestamp?: Timestamp };
+
+export interface GetAccountBalancesResult extends MetadataBearer {
+  /** Oldest first. Empty if the account has no recorded balances for the requested time. */
+  balances: AccountBalance[];
+  consumedReadCapacity: number;
+}
+
+export interface LookupTransfersResult extends MetadataBearer {
+  /** The transfers that exist, in the order their ids were given. */
+  transfers: Transfer[];
+  consumedReadCapacity: number;
+}
+
+export interface GetAccountTransfersResult extends MetadataBearer {
+  transfers: Transfer[];
+  /** Set if there may be more transfers to fetch; pass it back to get the next page. */
+  cursor?: string;
+  consumedReadCapacity: number;
+}
+
+/**
+ * Transfers are indexed by each of their accounts and timestamp, so that an account's history can be read back from
+ * both sides. The table needs both global secondary indexes, with all attributes projected.
+ */
+export const DEBIT_ACCOUNT_TRANSFERS_INDEX = "DebitAccountTransfers";
+export const CREDIT_ACCOUNT_TRANSFERS_INDEX = "CreditAccountTransfers";
+
+/**
+ * Transfers and accounts are indexed by user_data, and by ledger and code. Both global secondary indexes are sorted by
+ * timestamp, with all attributes projected.
+ */
+export const USER_DATA_INDEX = "UserData";
+export const CODE_INDEX = "Code";
+
+/**
+ * Pending transfers with a timeout are indexed by when they expire, for as long as they're pending. The global secondary
+ * index is keyed by expiry_key and expires_at, with all attributes projected.
+ */
+export const EXPIRY_INDEX = "PendingExpiry";
+
+/**
+ * Transfers or accounts to look for. Zero or unset fields match anything, but either user_data or both ledger and code
+ * must be given, to narrow the search down to an index.
+ */
+export interface QueryFilter {
+  user_data?: ExternalId;
+  ledger?: LedgerId;
+  code?: Reason | AccountType;
+  /** Only those created at or after this timestamp. */
+  fromTimestamp?: Timestamp;
+  /** Only those created at or before this timestamp. */
+  toTimestamp?: Timestamp;
+  /** Oldest first by default. */
+  direction?: SortDirection;
+  /** The maximum number of results to return; defaults to 100. */
+  limit?: number;
+  /** Where the previous page left off. */
+  cursor?: string;
+}
+
+export interface QueryTransfersResult extends MetadataBearer {
+  transfers: Transfer[];
+  /** Set if there may be more transfers to fetch; pass it back to get the next page. */
+  cursor?: string;
+  consumedReadCapacity: number;
+}
+
+export interface QueryAccountsResult extends MetadataBearer {
+  accounts: Account[];
+  /** Set if there may be more accounts to fetch; pass it back to get the next page. */
+  cursor?: string;
+  consumedReadCapacity: number;
+}
+
+/**
+ * The largest amount a transfer may move, and the largest any account balance may reach. Amounts are unsigned 128-bit
+ * integers, but DynamoDB numbers only hold 38 significant digits; capping the balances at 2^125 - 1 keeps them, as well
+ * as the headroom derived from them, within that.
+ */
+export const MAX_AMOUNT: Amount = 2n ** 125n - 1n;
+
+// DynamoDB's limit on the number of items a single TransactWriteItems request may touch
+const MAX_TRANSACTION_ITEMS = 100;
+
+// How often a transaction is re-driven because another writer got to the table's clock first, before its transfers are
+// reported as conflicting
+const MAX_CLOCK_REDRIVES = 5;
+
+// How often keys that BatchGetItem left unprocessed are asked for again, before the read is reported as throttled
+const MAX_UNPROCESSED_RETRIES = 8;
+
+const MAX_ACCOUNT_SHARDS = 32;
+
 type TransactItems = TransactWriteCommandInput["TransactItems"];
 type ItemType = NonNullable<TransactItems>[number];
 
@@ -67,32 +371,220 @@ export async function createAccountsBatch(
   tableName: string,
   accounts: Account[],
 ): Promise<void> {
-  const items: TransactItems = [];
+  validateAccounts(accounts);
+  if (accounts.length === 0) {
+    return;
+  }
+  const clock = commitClock(tableName);
+  for (let redrives = 0; ; redrives++) {
+    const timestamps = nextTimestamps(clock, accounts.length);
+    const items = [
+      ...accountItems(
+        tableName,
+        accounts.map((account, i) => ({ ...account, timestamp: timestamps[i] })),
+      ),
+      clockUpdate(tableName, timestamps),
+    ];
+    // The accounts are created all or nothing, so they can't be split over several transactions
+    if (items.length > MAX_TRANSACTION_ITEMS) {
+      throw new ValidationError(
+        `The accounts take ${items.length - 1} items with their shards and snapshots, more than the ${MAX_TRANSACTION_ITEMS - 1} a transaction can write`,
+      );
+    }
+    try {
+      await documentClient.send(
+        new ddc.TransactWriteCommand({
+          ClientRequestToken: randomUUID(),
+          TransactItems: items,
+        }),
+      );
+      clock.timestamp = Math.max(clock.timestamp, timestamps[timestamps.length - 1]);
+      return;
+    } catch (err) {
+      if (err instanceof dynamodb.TransactionCanceledException) {
+        const reasons = err.CancellationReasons ?? [];
+        // Each account item is keyed by the account it belongs to, whether it's the account itself, a shard or a
+        // snapshot
+        const existing = reasons.flatMap((reason, i) =>
+          reason.Code === "ConditionalCheckFailed" && items[i].Put
+            ? [Number.parseInt(items[i].Put!.Item!.pk.split("#")[1])]
+            : [],
+        );
+        if (existing.length > 0) {
+          throw new AccountExistsError([...new Set(existing)], { cause: err });
+        }
+        // Another writer got to the clock first: the accounts are created after it, unless that keeps happening
+        const clockReason = reasons[items.length - 1];
+        if (clockReason?.Code === "ConditionalCheckFailed" || clockReason?.Code === "TransactionConflict") {
+          if (redrives >= MAX_CLOCK_REDRIVES) {
+            throw new ConflictError(err.message, { cause: err });
+          }
+          learnClock(clock, clockReason.Item && unmarshall(clockReason.Item));
+          await clockBackoff(redrives + 1);
+          continue;
+        }
+      }
+      throw ledgerError(err);
+    }
+  }
+}
+
+/**
+ * The items that make up the accounts: each account item along with its shards, and the opening balance snapshot of
+ * HISTORY accounts.
+ */
+function accountItems(tableName: string, accounts: Account[]): ItemType[] {
+  const items: ItemType[] = [];
   for (const account of accounts) {
-    const { id, ledger, debits_pending, debits_posted, credits_pending, credits_posted, timestamp } = account;
+    const {
+      id,
+      user_data,
+      ledger,
+      code,
+      flags,
+      debits_pending,
+      debits_posted,
+      credits_pending,
+      credits_posted,
+      timestamp,
+      shards,
+    } = account;
+    const sharded = shards !== undefined && shards > 1;
     items.push({
       Put: {
         TableName: tableName,
         Item: {
           pk: `account#${id}`,
           sk: `account#${id}`,
+          user_data,
           ledger,
+          code,
+          flags: accountFlagsToItem(flags),
           debits_pending,
           debits_posted,
           credits_pending,
           credits_posted,
+          ...balanceHeadroom({ debits_pending, debits_posted, credits_pending, credits_posted }),
+          // Kept for reconciliation, which recomputes the balances from the transfers made since
+          ...(debits_pending || debits_posted || credits_pending || credits_posted
+            ? { opening_balances: { debits_pending, debits_posted, credits_pending, credits_posted } }
+            : {}),
           timestamp,
+          ...(sharded ? { shards } : {}),
+          ...indexKeys("account", account),
         },
         ConditionExpression: "attribute_not_exists(pk)",
       },
     });
+    // The opening balances stay with the account item; the other shards start out empty
+    for (let shard = 1; sharded && shard < shards; shard++) {
+      items.push({
+        Put: {
+          TableName: tableName,
+          Item: {
+            ...accountKey(id, shard),
+            ledger,
+            flags: accountFlagsToItem(flags),
+            debits_pending: 0n,
+            debits_posted: 0n,
+            credits_pending: 0n,
+            credits_posted: 0n,
+            debit_headroom: 0n,
+            credit_headroom: 0n,
+          },
+          ConditionExpression: "attribute_not_exists(pk)",
+        },
+      });
+    }
+    if (isFlagSet(flags, AccountFlags.HISTORY)) {
+      items.push(
+        balanceSnapshotItem(tableName, id, timestamp!, undefined, {
+          debits_pending,
+          debits_posted,
+          credits_pending,
+          credits_posted,
+        }),
+      );
+    }
+  }
+  return items;
+}
+
+/**
+ * Closes an account for good: transfers to or from it are rejected from then on, except for voiding its pending
+ * transfers.
+ */
+export async function closeAccount(
+  client: ddc.DynamoDBDocumentClient,
+  tableName: string,
+  accountId: AccountId,
+  opts: CloseAccountOptions = {},
+): Promise<void> {
+  await updateAccountFlags(client, tableName, accountId, "ADD", AccountFlags.CLOSED, opts.requireZeroBalance ?? false);
+}
+
+/**
+ * Rejects transfers debiting and/or crediting the account until it is unfrozen; by default, both. Voids of its pending
+ * transfers still go through.
+ */
+export async function freezeAccount(
+  client: ddc.DynamoDBDocumentClient,
+  tableName: string,
+  accountId: AccountId,
+  flags: AccountFlags = AccountFlags.DEBITS_FROZEN | AccountFlags.CREDITS_FROZEN,
+): Promise<void> {
+  await updateAccountFlags(client, tableName, accountId, "ADD", freezeFlags(accountId, flags));
+}
+
+export async function unfreezeAccount(
+  client: ddc.DynamoDBDocumentClient,
+  tableName: string,
+  accountId: AccountId,
+  flags: AccountFlags = AccountFlags.DEBITS_FROZEN | AccountFlags.CREDITS_FROZEN,
+): Promise<void> {
+  await updateAccountFlags(client, tableName, accountId, "DELETE", freezeFlags(accountId, flags));
+}
+
+/**
+ * Checks a batch of accounts before they are created, throwing if any of them is invalid. A transaction can't write the
+ * same item twice, so an account can only come up once per batch.
+ */
+export function validateAccounts(accounts: Account[]) {
+  accounts.forEach(validateAccount);
+  const repeated = accounts.find(({ id }, i) => accounts.findIndex((account) => account.id === id) < i);
+  if (repeated) {
+    throw new ValidationError(`Account ${repeated.id}: appears more than once in the batch`);
+  }
+}
+
+/**
+ * Checks an account by itself before it is created, throwing if it's invalid.
+ */
+function validateAccount(account: Account) {
+  const { id, flags, debits_pending, debits_posted, credits_pending, credits_posted, shards } = account;
+  if (
+    isFlagSet(flags, AccountFlags.DEBITS_MUST_NOT_EXCEED_CREDITS) &&
+    isFlagSet(flags, AccountFlags.CREDITS_MUST_NOT_EXCEED_DEBITS)
+  ) {
+    throw new ValidationError(`Account ${id}: balance limit flags are mutually exclusive`);
+  }
+  if (
+    [debits_pending, debits_posted, credits_pending, credits_posted].some(
+      (balance) => typeof balance !== "bigint" || balance < 0n || balance > MAX_AMOUNT,
+    )
+  ) {
+    throw new ValidationError(`Account ${id}: balances must be between 0 and ${MAX_AMOUNT}`);
+  }
+  if (shards !== undefined && (!Number.isInteger(shards) || shards < 1 || shards > MAX_ACCOUNT_SHARDS)) {
+    throw new ValidationError(`Account ${id}: shards must be an integer between 1 and ${MAX_ACCOUNT_SHARDS}`);
+  }
+  if (account.timestamp !== undefined) {
+    throw new ValidationError(`Account ${id}: timestamps are assigned by the ledger and must not be set`);
+  }
+  if (shards !== undefined && shards > 1 && isFlagSet(flags, AccountFlags.HISTORY)) {
+    // Snapshots need a single sequence of balances to record
+    throw new ValidationError(`Account ${id}: sharded accounts can't keep balance history`);
   }
-  await documentClient.send(
-    new ddc.TransactWriteCommand({
-      ClientRequestToken: randomUUID(),
-      TransactItems: items,
-    }),
-  );
 }
 
 export async function getAccount(
@@ -100,15 +592,13 @@ export async function getAccount(
   tableName: string,
   accountId: AccountId,
 ): Promise<Account | undefined> {
-  const result = await client.send(
-    new ddc.GetCommand({ TableName: tableName, Key: { pk: `account#${accountId}`, sk: `account#${accountId}` } }),
-  );
+  const result = await client.send(new ddc.GetCommand({ TableName: tableName, Key: accountKey(accountId) }));
   if (!result.Item) {
     return undefined;
   }
 
-  const { pk, sk, ...account } = result.Item;
-  return { id: accountId, ...account } as Account;
+  const { items } = await withShardBalances(client, tableName, [result.Item]);
+  return accountFromItem(items[0]);
 }
 
 export async function getAccountsBatch(
@@ -116,25 +606,170 @@ export async function getAccountsBatch(
   tableName: string,
   accountIds: AccountId[],
 ): Promise<GetAccountsResult> {
-  const result = await client.send(
-    new ddc.BatchGetCommand({
-      RequestItems: {
-        [tableName]: { Keys: accountIds.map((id) => ({ pk: `account#${id}`, sk: `account#${id}` })) },
-      },
-      ReturnConsumedCapacity: "TOTAL",
-    }),
+  const { items, consumedReadCapacity } = await batchGetItems(
+    client,
+    tableName,
+    accountIds.map((id) => accountKey(id)),
+    false,
   );
-  const consumedReadCapacity = (result.ConsumedCapacity ?? []).reduce(
-    (acc, item) => acc + (item.CapacityUnits ?? 0),
-    0,
+  const shards = await withShardBalances(client, tableName, items);
+  return {
+    accounts: shards.items.map(accountFromItem),
+    $metadata: {},
+    consumedReadCapacity: consumedReadCapacity + shards.consumedReadCapacity,
+  };
+}
+
+/**
+ * Reads the balances of an account with the HISTORY flag as of a point in time, or how they changed over a range.
+ */
+export async function getAccountBalances(
+  client: ddc.DynamoDBDocumentClient,
+  tableName: string,
+  accountId: AccountId,
+  opts: GetAccountBalancesOptions,
+): Promise<GetAccountBalancesResult> {
+  const asOf = "asOf" in opts;
+  const from = asOf ? undefined : opts.fromTimestamp;
+  const to = asOf ? opts.asOf : opts.toTimestamp;
+
+  const balances: AccountBalance[] = [];
+  let consumedReadCapacity = 0;
+  let startKey: Record<string, any> | undefined;
+  do {
+    const result: ddc.QueryCommandOutput = await client.send(
+      new ddc.QueryCommand({
+        TableName: tableName,
+        KeyConditionExpression: "pk = :pk AND sk BETWEEN :from AND :to",
+        ExpressionAttributeValues: {
+          ":pk": `account#${accountId}`,
+          ":from": from !== undefined ? balanceSortKey(from) : "balance#",
+          ":to": to !== undefined ? balanceSortKey(to, "\uffff") : "balance#\uffff",
+        },
+        // The balances as of a point in time are those of the latest snapshot up to then
+        ScanIndexForward: !asOf,
+        ...(asOf ? { Limit: 1 } : {}),
+        ConsistentRead: true,
+        ExclusiveStartKey: startKey,
+        ReturnConsumedCapacity: "TOTAL",
+      }),
+    );
+    balances.push(...(result.Items ?? []).map(balanceFromItem));
+    consumedReadCapacity += result.ConsumedCapacity?.CapacityUnits ?? 0;
+    startKey = asOf ? undefined : result.LastEvaluatedKey;
+  } while (startKey);
+
+  return { balances, consumedReadCapacity, $metadata: {} };
+}
+
+export async function getTransfer(
+  client: ddc.DynamoDBDocumentClient,
+  tableName: string,
+  id: IdType,
+): Promise<Transfer | undefined> {
+  const result = await client.send(
+    new ddc.GetCommand({ TableName: tableName, Key: { pk: `transfer#${id}`, sk: `transfer#${id}` } }),
   );
+  if (!result.Item) {
+    return undefined;
+  }
+
+  return transferFromItem(result.Item);
+}
+
+/**
+ * Reads back transfers by id, in as many batches as needed. Ids that don't exist are left out of the result.
+ */
+export async function lookupTransfers(
+  client: ddc.DynamoDBDocumentClient,
+  tableName: string,
+  ids: IdType[],
+): Promise<LookupTransfersResult> {
+  const { transfers, consumedReadCapacity } = await getTransferItems(client, tableName, ids, false);
   return {
-    accounts: result.Responses?.[tableName].map((item) => {
-      const { pk, sk, ...account } = item;
-      return { id: Number.parseInt(pk.split("#")[1]), ...account } as Account;
-    }),
-    $metadata: result.$metadata,
+    transfers: ids.filter((id) => transfers.has(id)).map((id) => transferFromItem(transfers.get(id)!)),
     consumedReadCapacity,
+    $metadata: {},
+  };
+}
+
+/**
+ * Lists the transfers on either side of the account in timestamp order, one page at a time. Reads from eventually
+ * consistent indexes, so very recent transfers may not show up yet.
+ */
+export async function getAccountTransfers(
+  client: ddc.DynamoDBDocumentClient,
+  tableName: string,
+  accountId: AccountId,
+  opts: GetAccountTransfersOptions = {},
+): Promise<GetAccountTransfersResult> {
+  let timestampCondition = "";
+  if (opts.fromTimestamp !== undefined && opts.toTimestamp !== undefined) {
+    timestampCondition = " AND #timestamp BETWEEN :from AND :to";
+  } else if (opts.fromTimestamp !== undefined) {
+    timestampCondition = " AND #timestamp >= :from";
+  } else if (opts.toTimestamp !== undefined) {
+    timestampCondition = " AND #timestamp <= :to";
+  }
+
+  // The account's debits and credits are read from separate indexes and merged.
+  const sides = [
+    { index: DEBIT_ACCOUNT_TRANSFERS_INDEX, attribute: "debit_account_id" },
+    { index: CREDIT_ACCOUNT_TRANSFERS_INDEX, attribute: "credit_account_id" },
+  ];
+  const result = await mergedQuery(
+    client,
+    sides.map(({ index, attribute }) => ({
+      name: attribute,
+      keyAttributes: [attribute, "timestamp"],
+      input: {
+        TableName: tableName,
+        IndexName: index,
+        KeyConditionExpression: `#account = :account${timestampCondition}`,
+        // Transfers from the account to itself are listed on the debit side only
+        ...(attribute === "credit_account_id" ? { FilterExpression: "debit_account_id <> :account" } : {}),
+        ExpressionAttributeNames: {
+          "#account": attribute,
+          ...(timestampCondition ? { "#timestamp": "timestamp" } : {}),
+        },
+        ExpressionAttributeValues: {
+          ":account": accountId,
+          ...(opts.fromTimestamp !== undefined ? { ":from": opts.fromTimestamp } : {}),
+          ...(opts.toTimestamp !== undefined ? { ":to": opts.toTimestamp } : {}),
+        },
+      },
+    })),
+    { sortAttribute: "timestamp", ...opts },
+  );
+  return { ...result, transfers: result.items.map(transferFromItem) };
+}
+
+/**
+ * Finds transfers by user_data, or by ledger and code, optionally within a timestamp range. See QueryFilter.
+ */
+export async function queryTransfers(
+  client: ddc.DynamoDBDocumentClient,
+  tableName: string,
+  filter: QueryFilter,
+): Promise<QueryTransfersResult> {
+  const result = await queryByFilter(client, tableName, "transfer", filter);
+  return { ...result, transfers: result.items.map(transferFromItem) };
+}
+
+/**
+ * Finds accounts by user_data, or by ledger and code, optionally within a timestamp range. See QueryFilter.
+ */
+export async function queryAccounts(
+  client: ddc.DynamoDBDocumentClient,
+  tableName: string,
+  filter: QueryFilter,
+): Promise<QueryAccountsResult> {
+  const result = await queryByFilter(client, tableName, "account", filter);
+  const { items, consumedReadCapacity } = await withShardBalances(client, tableName, result.items);
+  return {
+    ...result,
+    accounts: items.map(accountFromItem),
+    consumedReadCapacity: result.consumedReadCapacity + consumedReadCapacity,
   };
 }
 
@@ -143,105 +778,2383 @@ export async function createTransfersBatch(
   tableName: string,
   batch: Transfer[],
   retry = noRetry<CreateTransfersResult>,
+  opts: CreateTransfersOptions = {},
 ): Promise<CreateTransfersResult> {
-  const items: TransactItems = [];
-  const pendingUpdates: Map<AccountId, ItemType> = new Map();
+  // A transaction can't write the same item twice. A transfer whose id already came up earlier in the batch is held
+  // back and submitted once the rest is committed, where it finds the first one applied or not, as in the next batch.
+  const held = heldBackDuplicates(batch);
+  if (held.length > 0) {
+    const rest = batch.flatMap((_, i) => (held.includes(i) ? [] : [i]));
+    const committed = await createTransfersBatch(
+      documentClient,
+      tableName,
+      rest.map((i) => batch[i]),
+      retry,
+      opts,
+    );
+    const resubmitted = await createTransfersBatch(
+      documentClient,
+      tableName,
+      held.map((i) => batch[i]),
+      retry,
+      opts,
+    );
+    return mergedResults(batch.length, [
+      [rest, committed],
+      [held, resubmitted],
+    ]);
+  }
 
-  batch.forEach((transfer) => {
-    items.push({
-      Put: {
-        TableName: tableName,
-        Item: {
-          // Transfers get partitioned on their unique id which keeps them separate from accounts to maximally distribute the load:
-          pk: `transfer#${transfer.id}`,
-          sk: `transfer#${transfer.id}`,
+  // Posts and voids read the pending transfer they resolve before the batch is written. Those resolving a pending
+  // transfer created by an earlier chain in the batch are submitted once that chain is committed, as if the chains were
+  // applied one after the other. So are chains repeating a transfer of an earlier chain, which find it applied or not.
+  const split = dependentChainsSplit(batch);
+  if (split > 0) {
+    const before = [...batch.keys()].slice(0, split);
+    const after = [...batch.keys()].slice(split);
+    const committed = await createTransfersBatch(documentClient, tableName, batch.slice(0, split), retry, opts);
+    const resolving = await createTransfersBatch(documentClient, tableName, batch.slice(split), retry, opts);
+    return mergedResults(batch.length, [
+      [before, committed],
+      [after, resolving],
+    ]);
+  }
 
-          // Alternatively, we could cluster transfers under one of the participating accounts – e.g. alongside the sender:
-          // pk: `account#${transfer.debit_account_id}`,
-          // sk: `account#${transfer.debit_account_id}#transfer#${transfer.id}`,
+  const results: TransferResult[] = batch.map(() => TransferResult.OK);
+  const prepared: PreparedTransfer[] = [];
+  // Repeats within a linked chain are compared with the first one instead
+  const earlier: Map<IdType, Transfer> = new Map();
+  const repeats: number[] = [];
+  // The transfers prepared so far, which posts and voids later in their chain may resolve
+  const preparedById: Map<IdType, PreparedTransfer> = new Map();
 
-          ...transfer,
-        },
-        ConditionExpression: "attribute_not_exists(pk)",
-      },
-    });
+  // Post and void transfers need to know the amount and accounts of the pending transfer they resolve. Pending transfers
+  // are immutable apart from their status, so it's safe to read them upfront – the status transition is guarded by a
+  // condition on the pending transfer item within the same transaction. We also read back the post and void transfers
+  // themselves: once applied, the pending transfer is no longer pending, and a resubmission must be recognized as such
+  // rather than rejected for that reason.
+  const resolvingTransfers = batch.filter((t) =>
+    isFlagSet(t.flags, TransferFlags.POST_PENDING_TRANSFER | TransferFlags.VOID_PENDING_TRANSFER),
+  );
+  const { transfers: transferItems } = await withLedgerErrors(() =>
+    getTransferItems(documentClient, tableName, [
+      ...resolvingTransfers.map((t) => t.pending_id!),
+      ...resolvingTransfers.map((t) => t.id),
+    ]),
+  );
 
-    // Notes on DynamoDB account item operations:
-    // - We use ADD instead of SET for balance updates, which effectively turns account balance updates into "upserts"
-    //   and avoids needing to create millions of accounts upfront.
-    // - We don't enforce this in benchmark mode, but we could delegate business invariants to DynamoDB using conditions like this:
-    //   ConditionExpression: "debits_posted >= credits_posted"
-
-    const debitAccountPendingTx = pendingUpdates.get(transfer.debit_account_id);
-    if (debitAccountPendingTx) {
-      const debit_amount = debitAccountPendingTx?.Update?.ExpressionAttributeValues?.[":debit_amount"];
-      assert(debit_amount !== undefined);
-      debitAccountPendingTx!.Update!.ExpressionAttributeValues![":debit_amount"] = debit_amount + transfer.amount;
-    } else {
-      const updateDebitBalance = {
-        Update: {
-          TableName: tableName,
-          Key: {
-            pk: `account#${transfer.debit_account_id}`,
-            sk: `account#${transfer.debit_account_id}`,
-          },
-          UpdateExpression: "ADD debits_posted :debit_amount, credits_posted :credit_amount",
-          ExpressionAttributeValues: {
-            ":debit_amount": transfer.amount,
-            ":credit_amount": 0,
-          },
-        },
-      } as ItemType;
-      items.push(updateDebitBalance);
-      pendingUpdates.set(transfer.debit_account_id, updateDebitBalance);
+  batch.forEach((transfer, index) => {
+    const invalid = validateTransfer(transfer, opts);
+    if (invalid) {
+      results[index] = invalid;
+      return;
+    }
+    const duplicated = earlier.get(transfer.id);
+    if (duplicated) {
+      results[index] = existingTransferResult(transfer, duplicated);
+      repeats.push(index);
+      return;
     }
 
-    const creditAccountPendingTx = pendingUpdates.get(transfer.credit_account_id);
-    if (creditAccountPendingTx) {
-      const credit_amount = creditAccountPendingTx?.Update?.ExpressionAttributeValues?.[":credit_amount"];
-      assert(credit_amount !== undefined);
-      creditAccountPendingTx!.Update!.ExpressionAttributeValues![":credit_amount"] = credit_amount + transfer.amount;
-    } else {
-      const updateCreditBalance = {
-        Update: {
-          TableName: tableName,
-          Key: {
-            pk: `account#${transfer.credit_account_id}`,
-            sk: `account#${transfer.credit_account_id}`,
-          },
-          UpdateExpression: "ADD debits_posted :debit_amount, credits_posted :credit_amount",
-          ExpressionAttributeValues: {
-            ":debit_amount": 0,
-            ":credit_amount": transfer.amount,
-          },
-        },
-      } as ItemType;
-      items.push(updateCreditBalance);
-      pendingUpdates.set(transfer.credit_account_id, updateCreditBalance);
+    if (!isFlagSet(transfer.flags, TransferFlags.POST_PENDING_TRANSFER | TransferFlags.VOID_PENDING_TRANSFER)) {
+      prepared.push({ index, transfer });
+      earlier.set(transfer.id, transfer);
+      preparedById.set(transfer.id, prepared[prepared.length - 1]);
+      return;
+    }
+
+    const existing = transferItems.get(transfer.id);
+    if (existing) {
+      results[index] = existingTransferResult(transfer, existing);
+      return;
     }
+
+    // A pending transfer created in the batch is part of the same chain, earlier chains having been split off above. It
+    // is written along with its resolution, with its final status. If it was rejected, the chain fails with it.
+    const createdIndex = transferItems.has(transfer.pending_id!)
+      ? -1
+      : batch.findIndex((t, i) => i < index && t.id === transfer.pending_id);
+    if (createdIndex >= 0 && !isApplied(results[createdIndex])) {
+      return;
+    }
+    const createdInChain = createdIndex >= 0 ? preparedById.get(transfer.pending_id!) : undefined;
+    const pending =
+      transferItems.get(transfer.pending_id!) ??
+      (createdInChain && { ...createdInChain.transfer, pending_status: PendingStatus.PENDING });
+    const resolution = resolvePendingTransfer(transfer, pending);
+    if ("result" in resolution) {
+      results[index] = resolution.result;
+      return;
+    }
+    prepared.push({
+      index,
+      transfer: resolution.transfer,
+      pending,
+      ...(createdInChain ? { pendingInChain: { prepared: createdInChain, submitted: transfer } } : {}),
+    });
+    preparedById.set(transfer.id, prepared[prepared.length - 1]);
+    earlier.set(transfer.id, resolution.transfer);
+
+    // A second post or void of the same pending transfer within this batch should be rejected, just like it would
+    // be in a subsequent batch.
+    const status = isFlagSet(transfer.flags, TransferFlags.POST_PENDING_TRANSFER)
+      ? PendingStatus.POSTED
+      : PendingStatus.VOIDED;
+    transferItems.set(pending!.id, { ...pending!, pending_status: status });
   });
 
-  const result = await retry(async () => {
-    const result = await documentClient.send(
-      new ddc.TransactWriteCommand({
-        ClientRequestToken: randomUUID(),
-        TransactItems: items,
-        ReturnConsumedCapacity: "TOTAL",
-      }),
-    );
-    const consumedWriteCapacity = (result.ConsumedCapacity ?? []).reduce(
-      (acc, item) => acc + (item.CapacityUnits ?? 0),
-      0,
+  const result = await withLedgerErrors(() =>
+    commitPreparedTransfers(documentClient, tableName, batch, results, prepared, retry, opts),
+  );
+  return repeats.length > 0 ? withRepeatsFailed(batch, result, repeats) : result;
+}
+
+/**
+ * Repeats within a linked chain aren't written themselves; those found to exist go the way of their chain, failing
+ * along with it.
+ */
+function withRepeatsFailed(batch: Transfer[], result: CreateTransfersResult, repeats: number[]): CreateTransfersResult {
+  const results = [...result.results];
+  for (const chain of linkedChains(batch, results)) {
+    if (chain.some((i) => !isApplied(results[i]))) {
+      chain
+        .filter((i) => repeats.includes(i) && results[i] === TransferResult.EXISTS)
+        .forEach((i) => (results[i] = TransferResult.LINKED_EVENT_FAILED));
+    }
+  }
+  return { ...result, overallResult: overallResult(results), results };
+}
+
+/**
+ * Where the batch is split for posts and voids to find the pending transfers they resolve, and for repeats to find the
+ * transfers they repeat: at the first linked chain that resolves or repeats a transfer of an earlier chain in the batch,
+ * or 0 if none does.
+ */
+function dependentChainsSplit(batch: Transfer[]): number {
+  // The transfers of the chains before the current one
+  const created: Set<IdType> = new Set();
+  let chain: IdType[] = [];
+  let start = 0;
+  for (const [i, transfer] of batch.entries()) {
+    const resolves = isFlagSet(
+      transfer.flags,
+      TransferFlags.POST_PENDING_TRANSFER | TransferFlags.VOID_PENDING_TRANSFER,
     );
-    return {
-      overallResult: TransferResult.OK,
-      itemsWritten: items.length,
-      consumedWriteCapacity,
-      $metadata: result?.$metadata,
-    };
+    if (created.has(transfer.id) || (resolves && created.has(transfer.pending_id!))) {
+      return start;
+    }
+    chain.push(transfer.id);
+    if (!isFlagSet(transfer.flags, TransferFlags.LINKED)) {
+      chain.forEach((id) => created.add(id));
+      chain = [];
+      start = i + 1;
+    }
+  }
+  return 0;
+}
+
+/**
+ * The transfers whose id already came up earlier in the batch, other than members of linked chains, which have to be
+ * committed along with the rest of their chain.
+ */
+function heldBackDuplicates(batch: Transfer[]): number[] {
+  const ids: Set<IdType> = new Set();
+  const held: number[] = [];
+  batch.forEach((transfer, i) => {
+    const linked =
+      isFlagSet(transfer.flags, TransferFlags.LINKED) || isFlagSet(batch[i - 1]?.flags, TransferFlags.LINKED);
+    if (ids.has(transfer.id) && !linked) {
+      held.push(i);
+    }
+    ids.add(transfer.id);
+  });
+  return held;
+}
+
+/**
+ * Puts together the results of parts of a batch that were submitted separately, given the indices of their transfers
+ * in the batch.
+ */
+function mergedResults(size: number, parts: [number[], CreateTransfersResult][]): CreateTransfersResult {
+  const results: TransferResult[] = new Array(size);
+  const balancedAmounts: (Amount | undefined)[] = new Array(size).fill(undefined);
+  const timestamps: (Timestamp | undefined)[] = new Array(size).fill(undefined);
+  const transactions: TransactionResult[] = [];
+  const $metadata: ResponseMetadata = {};
+  for (const [indices, part] of parts) {
+    indices.forEach((index, i) => {
+      results[index] = part.results[i];
+      balancedAmounts[index] = part.balancedAmounts[i];
+      timestamps[index] = part.timestamps[i];
+    });
+    transactions.push(...part.transactions.map((t) => ({ ...t, transfers: t.transfers.map((i) => indices[i]) })));
+    $metadata.attempts = ($metadata.attempts ?? 1) + (part.$metadata.attempts ?? 1) - 1;
+    $metadata.totalRetryDelay = ($metadata.totalRetryDelay ?? 0) + (part.$metadata.totalRetryDelay ?? 0);
+  }
+  return {
+    overallResult: overallResult(results),
+    results,
+    balancedAmounts,
+    timestamps,
+    transactions,
+    itemsWritten: transactions.reduce((acc, t) => acc + t.itemsWritten, 0),
+    consumedWriteCapacity: transactions.reduce((acc, t) => acc + t.consumedWriteCapacity, 0),
+    $metadata,
+  };
+}
+
+/**
+ * Expires the pending transfers whose timeout has elapsed: their reservations are released, as if they were voided, and
+ * they are marked as EXPIRED, so that posting or voiding them is rejected from then on.
+ *
+ * The expiry index is eventually consistent, so pending transfers that were just resolved may still turn up; those are
+ * skipped. Call it again with the returned cursor while there are more to expire; pending transfers that couldn't be
+ * expired, such as those lost to a concurrent post or void, are then left behind rather than turning up again.
+ */
+export async function expirePendingTransfers(
+  documentClient: ddc.DynamoDBDocumentClient,
+  tableName: string,
+  opts: ExpirePendingTransfersOptions = {},
+): Promise<ExpirePendingTransfersResult> {
+  const now = opts.now ?? Date.now();
+  const limit = opts.limit ?? 100;
+
+  // Oldest first across all the index shards, so that a backlog is worked off in order
+  const { items, cursor, consumedReadCapacity } = await mergedQuery(
+    documentClient,
+    Array.from({ length: EXPIRY_INDEX_SHARDS }, (_, shard) => ({
+      name: String(shard),
+      keyAttributes: ["pk", "sk", "expiry_key", "expires_at"],
+      input: {
+        TableName: tableName,
+        IndexName: EXPIRY_INDEX,
+        KeyConditionExpression: "expiry_key = :key AND expires_at <= :now",
+        ExpressionAttributeValues: { ":key": `pending#${shard}`, ":now": now },
+      },
+    })),
+    { sortAttribute: "expires_at", direction: SortDirection.ASC, limit, cursor: opts.cursor },
+  );
+
+  const pendingTransfers = items.map(pendingTransferFromItem);
+  const batch: Transfer[] = pendingTransfers.map((pending) => ({
+    id: pending.id,
+    debit_account_id: pending.debit_account_id,
+    credit_account_id: pending.credit_account_id,
+    ledger: pending.ledger,
+    amount: pending.amount,
+    pending_id: pending.id,
+    timeout: 0,
+    flags: TransferFlags.VOID_PENDING_TRANSFER,
+  }));
+  const results = batch.map(() => TransferResult.OK);
+  const prepared = batch.map((transfer, index) => ({
+    index,
+    transfer,
+    pending: pendingTransfers[index],
+    expiring: true,
+  }));
+  const result = await commitPreparedTransfers(documentClient, tableName, batch, results, prepared, noRetry, {});
+
+  return {
+    expired: pendingTransfers.filter((_, i) => result.results[i] === TransferResult.OK).map((p) => p.id),
+    cursor,
+    consumedReadCapacity,
+    consumedWriteCapacity: result.consumedWriteCapacity,
+    $metadata: result.$metadata,
+  };
+}
+
+async function commitPreparedTransfers(
+  documentClient: ddc.DynamoDBDocumentClient,
+  tableName: string,
+  batch: Transfer[],
+  results: TransferResult[],
+  prepared: PreparedTransfer[],
+  retry: (fn: () => Promise<CreateTransfersResult>) => Promise<CreateTransfersResult>,
+  opts: CreateTransfersOptions,
+): Promise<CreateTransfersResult> {
+  // Linked transfers form chains that succeed or fail as a unit; every other transfer is a chain by itself. Chains are
+  // independent of each other, even when they end up sharing a transaction.
+  const chains = linkedChains(batch, results);
+  const preparedByIndex = new Map(prepared.map((p) => [p.index, p]));
+  for (const chain of chains) {
+    for (const i of chain) {
+      const p = preparedByIndex.get(i);
+      if (p) {
+        p.chain = chain;
+      }
+    }
+  }
+  const known: KnownAccounts = {
+    history: new Map(),
+    shards: shardCounts(tableName),
+    exhaustedShards: new Map(),
+    headroom: new Map(),
+    clock: commitClock(tableName),
+    clockRedrives: 0,
+  };
+  const transfersOf = (chain: number[]) => chain.filter((i) => results[i] === TransferResult.OK);
+  const writable = chains.filter((chain) => {
+    if (
+      transfersOf(chain).length > 0 &&
+      transactionItemCount(transfersOf(chain), preparedByIndex, known) > MAX_TRANSACTION_ITEMS
+    ) {
+      rejectOversizeChain(chain, results);
+      return false;
+    }
+    return transfersOf(chain).length > 0;
   });
 
-  return result;
+  // Batches that don't fit into a single transaction are split into several.
+  const transactions: TransactionResult[] = [];
+  const $metadata: ResponseMetadata = {};
+  for (const planned of planTransactions(writable.map(transfersOf), preparedByIndex, known)) {
+    const result = await commitTransaction(
+      documentClient,
+      tableName,
+      planned,
+      preparedByIndex,
+      known,
+      results,
+      retry,
+      opts,
+    );
+    transactions.push({
+      transfers: planned.flat().sort((a, b) => a - b),
+      committed: result.itemsWritten > 0,
+      itemsWritten: result.itemsWritten,
+      consumedWriteCapacity: result.consumedWriteCapacity,
+    });
+    // Aggregate the SDK's retry accounting across the transactions as if they were one request
+    $metadata.attempts = ($metadata.attempts ?? 1) + (result.$metadata.attempts ?? 1) - 1;
+    $metadata.totalRetryDelay = ($metadata.totalRetryDelay ?? 0) + (result.$metadata.totalRetryDelay ?? 0);
+  }
+
+  return {
+    overallResult: overallResult(results),
+    results,
+    balancedAmounts: batch.map((_, i) =>
+      results[i] === TransferResult.OK ? preparedByIndex.get(i)?.balancedAmount : undefined,
+    ),
+    timestamps: batch.map((_, i) => (results[i] === TransferResult.OK ? preparedByIndex.get(i)?.timestamp : undefined)),
+    transactions,
+    itemsWritten: transactions.reduce((acc, t) => acc + t.itemsWritten, 0),
+    consumedWriteCapacity: transactions.reduce((acc, t) => acc + t.consumedWriteCapacity, 0),
+    $metadata,
+  };
+}
+
+/**
+ * Splits the batch into chains of linked transfers, given as positions in the batch. A chain with a failed member fails
+ * as a whole; an unterminated chain at the end of the batch fails with LINKED_EVENT_CHAIN_OPEN.
+ */
+export function linkedChains(batch: Transfer[], results: TransferResult[]): number[][] {
+  const chains: number[][] = [];
+  let chain: number[] = [];
+  batch.forEach((transfer, index) => {
+    chain.push(index);
+    if (!isFlagSet(transfer.flags, TransferFlags.LINKED)) {
+      chains.push(chain);
+      chain = [];
+    }
+  });
+  if (chain.length > 0) {
+    results[chain[chain.length - 1]] = TransferResult.LINKED_EVENT_CHAIN_OPEN;
+    chains.push(chain);
+  }
+
+  for (const chain of chains) {
+    if (chain.some((i) => !isApplied(results[i]))) {
+      failChain(chain, results);
+    }
+  }
+  return chains;
+}
+
+export function failChain(chain: number[], results: TransferResult[]) {
+  for (const i of chain) {
+    if (results[i] === TransferResult.OK) {
+      results[i] = TransferResult.LINKED_EVENT_FAILED;
+    }
+  }
+}
+
+function rejectOversizeChain(chain: number[], results: TransferResult[]) {
+  failChain(chain, results);
+  results[chain[chain.length - 1]] = TransferResult.LINKED_EVENT_CHAIN_TOO_LARGE;
+}
+
+/**
+ * Commits the given chains of transfers in one transaction, recording their results. Chains that fail are taken out and
+ * the rest of the transaction resubmitted, until it commits or there is nothing left to write.
+ *
+ * Chains that lose out to concurrent transactions are set aside as well, rather than holding up the rest. Once the
+ * uncontended part has been committed, they are retried one chain per transaction, which is where the retry strategy
+ * comes in. Contended chains may therefore be applied after later transfers in the batch.
+ *
+ * The first attempt is also how HISTORY and sharded accounts are discovered, along with their balances or shards. Once they're known, the
+ * transaction may need to be split again to fit their balance snapshots.
+ */
+async function commitTransaction(
+  documentClient: ddc.DynamoDBDocumentClient,
+  tableName: string,
+  chains: number[][],
+  preparedByIndex: Map<number, PreparedTransfer>,
+  known: KnownAccounts,
+  results: TransferResult[],
+  retry: (fn: () => Promise<CreateTransfersResult>) => Promise<CreateTransfersResult>,
+  opts: CreateTransfersOptions,
+): Promise<Omit<TransactionResult, "transfers" | "committed"> & MetadataBearer> {
+  const $metadata: ResponseMetadata = {};
+  let itemsWritten = 0;
+  let consumedWriteCapacity = 0;
+  let attempt = 0;
+
+  const queue: number[][][] = [chains];
+  while (queue.length > 0) {
+    let remaining = queue.shift()!;
+    known.clockRedrives = 0;
+    while (remaining.length > 0) {
+      const transfers = remaining.flat().filter((i) => results[i] === TransferResult.OK);
+      if (transfers.length === 0) {
+        break;
+      }
+      const prepared = transfers.map((i) => preparedByIndex.get(i)!);
+      const { items, owners, unresolved } = buildTransferItems(tableName, prepared, known, opts);
+      if (unresolved.length > 0) {
+        unresolved.forEach(([i, result]) => (results[i] = result));
+        remaining = remaining.filter((chain) => {
+          if (chain.some((i) => unresolved.some(([index]) => index === i))) {
+            failChain(chain, results);
+            return false;
+          }
+          return true;
+        });
+        continue;
+      }
+      if (items.length > MAX_TRANSACTION_ITEMS) {
+        if (remaining.length > 1) {
+          queue.push(...planTransactions(remaining, preparedByIndex, known));
+        } else {
+          rejectOversizeChain(remaining[0], results);
+        }
+        break;
+      }
+      // A single chain can't be split any further, so only then are conflicts left to the retry strategy.
+      const redrives = known.clockRedrives;
+      const result = await writeTransferItems(
+        documentClient,
+        items,
+        transferRequestToken(prepared, attempt++),
+        owners,
+        known,
+        results,
+        remaining.length > 1 ? noRetry<CreateTransfersResult> : retry,
+      );
+      $metadata.attempts = ($metadata.attempts ?? 1) + (result.$metadata.attempts ?? 1) - 1;
+      $metadata.totalRetryDelay = ($metadata.totalRetryDelay ?? 0) + (result.$metadata.totalRetryDelay ?? 0);
+      if (result.itemsWritten > 0) {
+        itemsWritten += result.itemsWritten;
+        consumedWriteCapacity += result.consumedWriteCapacity;
+        known.clock.timestamp = Math.max(known.clock.timestamp, ...prepared.map((p) => p.timestamp!));
+        break;
+      }
+
+      const attempted = (i: number) => result.results[i];
+      const failed = (i: number) =>
+        ![TransferResult.EXISTS, TransferResult.BATCH_CANCELLED, TransferResult.CONFLICT].includes(attempted(i));
+
+      // Transfers that turn out to exist already are left out, so that a batch retried after a timeout is reported as
+      // applied, whether or not the original attempt made it.
+      transfers
+        .filter((i) => attempted(i) === TransferResult.EXISTS)
+        .forEach((i) => (results[i] = TransferResult.EXISTS));
+
+      remaining = remaining.filter((chain) => {
+        const failures = chain.filter((i) => results[i] === TransferResult.OK && failed(i));
+        failures.forEach((i) => (results[i] = attempted(i)));
+        if (failures.length > 0) {
+          failChain(chain, results);
+          return false;
+        }
+        return true;
+      });
+
+      const contended = remaining.filter((chain) =>
+        chain.some((i) => results[i] === TransferResult.OK && attempted(i) === TransferResult.CONFLICT),
+      );
+      if (contended.length === 1 && remaining.length === 1) {
+        // Conflicts that outlasted the retry strategy
+        const [chain] = contended;
+        chain
+          .filter((i) => attempted(i) === TransferResult.CONFLICT)
+          .forEach((i) => (results[i] = TransferResult.CONFLICT));
+        failChain(chain, results);
+        break;
+      }
+      queue.push(...contended.map((chain) => [chain]));
+      remaining = remaining.filter((chain) => !contended.includes(chain));
+      if (known.clockRedrives > redrives) {
+        await clockBackoff(known.clockRedrives);
+      }
+    }
+  }
+
+  return { itemsWritten, consumedWriteCapacity, $metadata };
+}
+
+function transactionItemCount(
+  indices: number[],
+  preparedByIndex: Map<number, PreparedTransfer>,
+  known: KnownAccounts,
+): number {
+  const accounts = new Set(indices.flatMap((i) => transferAccountItems(preparedByIndex.get(i)!)));
+  // Plus the update to the table's clock
+  return indices.reduce((acc, i) => acc + transferItemCount(preparedByIndex.get(i)!, known), 0) + accounts.size + 1;
+}
+
+/**
+ * The items a transfer needs besides its account updates: the transfer itself, the pending transfer it resolves, and
+ * a balance snapshot for each of its HISTORY accounts.
+ */
+function transferItemCount(p: PreparedTransfer, known: KnownAccounts): number {
+  const snapshots = transferAccounts(p.transfer).filter((account) => known.history.has(account)).length;
+  return (p.pending && !p.pendingInChain ? 1 : 0) + (p.expiring ? 0 : 1) + snapshots;
+}
+
+/**
+ * The account items a transfer updates, as far as they are known before the transaction picks the shards of sharded
+ * accounts: posts and voids may update another shard than the rest of the transaction.
+ */
+function transferAccountItems(p: PreparedTransfer): string[] {
+  return transferAccounts(p.transfer).map((accountId) => {
+    const shard = transferShard(p, accountId, () => undefined);
+    // The others count once per account, whichever shard the transaction picks
+    return shard !== undefined ? accountKey(accountId, shard).pk : String(accountId);
+  });
+}
+
+function transferAccounts({ debit_account_id, credit_account_id }: Transfer): AccountId[] {
+  return debit_account_id === credit_account_id ? [debit_account_id] : [debit_account_id, credit_account_id];
+}
+
+/**
+ * Packs chains of transfers into groups that each fit into a single transaction.
+ *
+ * Chains are grouped by the accounts they touch, so that as many balance updates as possible get coalesced and
+ * transfers that depend on each other's balance changes are committed together. Only groups that are too large by
+ * themselves are split, in batch order.
+ */
+function planTransactions(
+  chains: number[][],
+  preparedByIndex: Map<number, PreparedTransfer>,
+  known: KnownAccounts,
+): number[][][] {
+  const accountsOf = (chain: number[]) =>
+    Array.from(new Set(chain.flatMap((i) => transferAccounts(preparedByIndex.get(i)!.transfer))));
+  const accountItemsOf = (chain: number[]) =>
+    Array.from(new Set(chain.flatMap((i) => transferAccountItems(preparedByIndex.get(i)!))));
+  const itemsOf = (chain: number[]) =>
+    chain.reduce((acc, i) => acc + transferItemCount(preparedByIndex.get(i)!, known), 0);
+
+  // Union-find over accounts: chains sharing an account, directly or transitively, end up in the same group.
+  const parent: Map<AccountId, AccountId> = new Map();
+  const find = (account: AccountId): AccountId => {
+    let root = parent.get(account) ?? account;
+    while (root !== (parent.get(root) ?? root)) {
+      root = parent.get(root)!;
+    }
+    parent.set(account, root);
+    return root;
+  };
+  for (const chain of chains) {
+    const [first, ...rest] = accountsOf(chain).map(find);
+    rest.forEach((root) => parent.set(root, first));
+  }
+
+  const groups: Map<AccountId, number[][]> = new Map();
+  for (const chain of chains) {
+    const root = find(accountsOf(chain)[0]);
+    groups.set(root, [...(groups.get(root) ?? []), chain]);
+  }
+
+  // Split oversize groups into pieces that fit, then pack the pieces into as few transactions as possible.
+  type Piece = { group: AccountId; chains: number[][]; accountItems: Set<string>; items: number };
+  const pieces: Piece[] = [];
+  for (const [root, group] of groups) {
+    const emptyPiece = (): Piece => ({ group: root, chains: [], accountItems: new Set(), items: 0 });
+    let piece = emptyPiece();
+    for (const chain of group) {
+      const addedItems = (p: Piece) =>
+        itemsOf(chain) + accountItemsOf(chain).filter((a) => !p.accountItems.has(a)).length;
+      if (piece.chains.length > 0 && piece.items + addedItems(piece) > MAX_TRANSACTION_ITEMS) {
+        pieces.push(piece);
+        piece = emptyPiece();
+      }
+      piece.items += addedItems(piece);
+      piece.chains.push(chain);
+      accountItemsOf(chain).forEach((item) => piece.accountItems.add(item));
+    }
+    pieces.push(piece);
+  }
+
+  // Pieces of the same group must still be committed in batch order, so a later piece never goes into an earlier
+  // transaction than the one before it.
+  const transactions: { chains: number[][]; items: number }[] = [];
+  const earliestTransaction: Map<Piece["group"], number> = new Map();
+  for (const piece of pieces) {
+    const earliest = earliestTransaction.get(piece.group) ?? 0;
+    let t = transactions.findIndex((t, i) => i >= earliest && t.items + piece.items <= MAX_TRANSACTION_ITEMS);
+    if (t < 0) {
+      t = transactions.push({ chains: [], items: 0 }) - 1;
+    }
+    transactions[t].chains.push(...piece.chains);
+    transactions[t].items += piece.items;
+    earliestTransaction.set(piece.group, t);
+  }
+  return transactions.map((t) => t.chains.sort((a, b) => a[0] - b[0]));
+}
+
+/**
+ * The token for the given attempt at writing the given transfers. It depends only on the transfers as submitted, not on
+ * the items written for them, which carry the time of writing; the same transfers resubmitted by another call get the
+ * same token, so DynamoDB reports a resubmission racing the original as still in progress rather than applying both.
+ */
+function transferRequestToken(prepared: PreparedTransfer[], attempt: number): string {
+  return createHash("sha256")
+    .update(JSON.stringify([attempt, prepared.map((p) => [p.transfer, p.expiring ?? false])], bigintsAsStrings))
+    .digest("hex")
+    .slice(0, 36);
+}
+
+/**
+ * Writes the transaction under the given token. Once the transfers have been written, or rejected, their resubmission
+ * comes with other timestamps, which DynamoDB refuses under the same token; it is then written under a token of its own,
+ * where any transfers already written fail their conditions and are reported as existing.
+ */
+async function sendTransferItems(
+  documentClient: ddc.DynamoDBDocumentClient,
+  items: ItemType[],
+  clientRequestToken: string,
+): Promise<ddc.TransactWriteCommandOutput> {
+  const send = (token: string) =>
+    documentClient.send(
+      new ddc.TransactWriteCommand({
+        ClientRequestToken: token,
+        TransactItems: items,
+        ReturnConsumedCapacity: "TOTAL",
+      }),
+    );
+  try {
+    return await send(clientRequestToken);
+  } catch (err) {
+    if (err instanceof dynamodb.IdempotentParameterMismatchException) {
+      return await send(randomUUID());
+    }
+    throw err;
+  }
+}
+
+async function writeTransferItems(
+  documentClient: ddc.DynamoDBDocumentClient,
+  items: ItemType[],
+  clientRequestToken: string,
+  owners: ItemOwner[],
+  known: KnownAccounts,
+  results: TransferResult[],
+  retry: (fn: () => Promise<CreateTransfersResult>) => Promise<CreateTransfersResult>,
+): Promise<CreateTransfersResult> {
+  try {
+    return await retry(async () => {
+      let result;
+      try {
+        result = await sendTransferItems(documentClient, items, clientRequestToken);
+      } catch (err) {
+        // Failed conditions are a final outcome for the batch, there is no point in retrying them. Conflicts with
+        // concurrent transactions are left to the retry strategy.
+        if (err instanceof dynamodb.TransactionCanceledException) {
+          if (!isConflictOnly(err)) {
+            return cancelledBatch(transferResultsFromCancellation(err, owners, known, results));
+          }
+          throw new TransferConflictError(err.message, { cause: err });
+        }
+        throw ledgerError(err);
+      }
+      const consumedWriteCapacity = (result.ConsumedCapacity ?? []).reduce(
+        (acc, item) => acc + (item.CapacityUnits ?? 0),
+        0,
+      );
+      return {
+        overallResult: TransferResult.OK,
+        results,
+        balancedAmounts: [],
+        timestamps: [],
+        transactions: [],
+        itemsWritten: items.length,
+        consumedWriteCapacity,
+        $metadata: result?.$metadata,
+      };
+    });
+  } catch (err) {
+    // Conflicts that persisted through all the retry attempts
+    if (err instanceof TransferConflictError) {
+      return cancelledBatch(
+        transferResultsFromCancellation(err.cause as dynamodb.TransactionCanceledException, owners, known, results),
+      );
+    }
+    throw err;
+  }
+}
+
+/**
+ * A transfer that passed validation, along with its position in the submitted batch. Post and void transfers have
+ * their accounts, ledger and amount filled in from the pending transfer they resolve.
+ */
+interface PreparedTransfer {
+  index: number;
+  transfer: Transfer;
+  pending?: PendingTransferItem;
+  /** Voids the pending transfer on expiry; nothing is recorded besides its status. */
+  expiring?: boolean;
+  /**
+   * For balancing transfers, the amount they were clamped to in the latest attempt at writing them, which is written in
+   * place of the requested amount.
+   */
+  balancedAmount?: Amount;
+  /** The commit timestamp assigned to the transfer in the latest attempt at writing it. */
+  timestamp?: Timestamp;
+  /** The positions in the batch of the linked chain the transfer is part of; just its own if it isn't linked. */
+  chain?: number[];
+  /**
+   * For posts and voids of a pending transfer created earlier in their chain: the pending transfer, which is written
+   * with its final status instead of being updated, and the transfer as submitted, which is resolved again once the
+   * pending transfer's amount is known if it is balancing.
+   */
+  pendingInChain?: { prepared: PreparedTransfer; submitted: Transfer };
+}
+
+/**
+ * Tracks which transfers each transaction item was built from, so that cancellation reasons – which DynamoDB reports
+ * per item – can be attributed back to individual transfers.
+ */
+type ItemOwner =
+  | { kind: "transfer"; transfer: PreparedTransfer }
+  | { kind: "pending"; transfer: PreparedTransfer }
+  | { kind: "snapshot"; transfer: PreparedTransfer }
+  | { kind: "clock"; transfers: PreparedTransfer[] }
+  | {
+      kind: "account";
+      accountId: AccountId;
+      /** Unset unless the account is known to be sharded. */
+      shard: number | undefined;
+      contributions: { transfer: PreparedTransfer; delta: AccountDelta }[];
+      strict: boolean;
+    };
+
+/**
+ * What the batch has learned about the accounts it touches along the way.
+ */
+interface KnownAccounts {
+  /**
+   * HISTORY accounts, with the balances and version they were last seen at. Snapshots record the balances after each
+   * transfer, so they can only be written if the account is still at that version.
+   */
+  history: Map<AccountId, { version: number; balances: AccountDelta }>;
+  /** The number of shards of each sharded account; shared across batches, as it never changes. */
+  shards: Map<AccountId, number>;
+  /**
+   * Shards of sharded accounts that turned out not to have enough headroom for the batch's transfers, with the headroom
+   * they had then.
+   */
+  exhaustedShards: Map<AccountId, Map<number, Headroom>>;
+  /**
+   * The headroom of the account items that balancing transfers draw on, by key, as last seen. Their amounts are clamped
+   * to it, so the account update is conditional on it being unchanged.
+   */
+  headroom: Map<string, Headroom>;
+  /** The latest timestamp committed or seen on the table's clock; shared across batches. */
+  clock: CommitClock;
+  /** How often the current transaction has been re-driven because another writer got to the table's clock first. */
+  clockRedrives: number;
+}
+
+function buildTransferItems(
+  tableName: string,
+  prepared: PreparedTransfer[],
+  known: KnownAccounts,
+  opts: CreateTransfersOptions,
+): { items: ItemType[]; owners: ItemOwner[]; unresolved: [number, TransferResult][] } {
+  const items: ItemType[] = [];
+  const owners: ItemOwner[] = [];
+  // Pending transfers resolved later in their chain, by the status they are written with
+  const resolvedInChain: Map<IdType, PendingStatus> = new Map();
+  for (const p of prepared) {
+    if (p.pendingInChain) {
+      resolvedInChain.set(
+        p.pending!.id,
+        isFlagSet(p.transfer.flags, TransferFlags.POST_PENDING_TRANSFER) ? PendingStatus.POSTED : PendingStatus.VOIDED,
+      );
+    }
+  }
+  // By account item: releases of pending transfers go to the shard their amount was reserved on, which needn't be the
+  // one the rest of the transaction updates
+  const accountDeltas: Map<
+    string,
+    {
+      accountId: AccountId;
+      shard: number | undefined;
+      delta: AccountDelta;
+      contributions: { transfer: PreparedTransfer; delta: AccountDelta }[];
+    }
+  > = new Map();
+
+  // Each transaction updates one shard of a sharded account, which balancing transfers need to know upfront
+  const shards: Map<AccountId, number | undefined> = new Map();
+  const shardOf = (accountId: AccountId) => {
+    if (!shards.has(accountId)) {
+      const count = known.shards.get(accountId);
+      shards.set(accountId, count !== undefined ? pickShard(count, known.exhaustedShards.get(accountId)) : undefined);
+    }
+    return shards.get(accountId);
+  };
+
+  const unresolved = clampBalancingTransfers(prepared, known, shardOf);
+  // In batch order, so that each account update can be conditional on the first of them following the account's last
+  const timestamps = nextTimestamps(known.clock, prepared.length);
+  prepared.forEach((p, i) => (p.timestamp = timestamps[i]));
+  for (const p of prepared) {
+    const { pending } = p;
+    const transfer = { ...p.transfer, timestamp: p.timestamp };
+
+    if (pending && !p.pendingInChain) {
+      const status = p.expiring
+        ? PendingStatus.EXPIRED
+        : isFlagSet(transfer.flags, TransferFlags.POST_PENDING_TRANSFER)
+          ? PendingStatus.POSTED
+          : PendingStatus.VOIDED;
+      // Once the timeout has elapsed, only expiry may resolve the pending transfer
+      const beforeExpiry = !p.expiring && pending.expires_at !== undefined;
+      items.push({
+        Update: {
+          TableName: tableName,
+          Key: {
+            pk: `transfer#${pending.id}`,
+            sk: `transfer#${pending.id}`,
+          },
+          UpdateExpression: "SET pending_status = :status REMOVE expiry_key",
+          ConditionExpression: "pending_status = :pending" + (beforeExpiry ? " AND expires_at > :now" : ""),
+          ExpressionAttributeValues: {
+            ":status": status,
+            ":pending": PendingStatus.PENDING,
+            ...(beforeExpiry ? { ":now": Date.now() } : {}),
+          },
+          ReturnValuesOnConditionCheckFailure: "ALL_OLD",
+        },
+      });
+      owners.push({ kind: "pending", transfer: p });
+    }
+
+    for (const [accountId, delta] of transferDeltas(p)) {
+      const shard = transferShard(p, accountId, shardOf);
+      const key = accountKey(accountId, shard).pk;
+      let account = accountDeltas.get(key);
+      if (!account) {
+        account = { accountId, shard, delta: emptyDelta(), contributions: [] };
+        accountDeltas.set(key, account);
+      }
+      // Shard 0 is the account item, whether or not the account is known to be sharded
+      account.shard ??= shard;
+      addDelta(account.delta, delta);
+      account.contributions.push({ transfer: p, delta });
+    }
+
+    if (p.expiring) {
+      continue;
+    }
+    const expiry = expiryKeys(transfer);
+    if (resolvedInChain.has(transfer.id)) {
+      delete expiry.expiry_key;
+    }
+    items.push({
+      Put: {
+        TableName: tableName,
+        Item: {
+          // Transfers get partitioned on their unique id which keeps them separate from accounts to maximally distribute the load:
+          pk: `transfer#${transfer.id}`,
+          sk: `transfer#${transfer.id}`,
+
+          // Clustering transfers under one of the participating accounts would only serve that account's history, and
+          // concentrate the load on hot accounts. Instead, the debit_account_id, credit_account_id and timestamp
+          // attributes key the account history indexes.
+
+          ...transfer,
+          ...(p.balancedAmount !== undefined ? { amount: p.balancedAmount } : {}),
+          ...indexKeys("transfer", transfer),
+
+          // Pending transfers track whether they have since been posted or voided:
+          ...(isFlagSet(transfer.flags, TransferFlags.PENDING)
+            ? { pending_status: PendingStatus.PENDING, ...reservedShards(transfer, shardOf) }
+            : {}),
+          ...expiry,
+          // ...unless it is resolved later in its chain, and written that way:
+          ...(resolvedInChain.has(transfer.id) ? { pending_status: resolvedInChain.get(transfer.id) } : {}),
+        },
+        ConditionExpression: "attribute_not_exists(pk)",
+        ReturnValuesOnConditionCheckFailure: "ALL_OLD",
+      },
+    });
+    owners.push({ kind: "transfer", transfer: p });
+  }
+
+  // Notes on DynamoDB account item operations:
+  // - We use ADD instead of SET for balance updates, which effectively turns account balance updates into "upserts"
+  //   and avoids needing to create millions of accounts upfront.
+  // - Transfers touching the same account within a batch are coalesced into a single update, since a transaction may
+  //   only contain one operation per item.
+  // - Condition expressions can't do arithmetic, so alongside the balances we maintain the headroom left before each
+  //   balance limit is hit and compare that against the lowest point the batch takes it to, in batch order: a debit
+  //   can't be covered by a credit that comes after it. The limits are only enforced for accounts that carry the
+  //   corresponding flag, and only when the batch eats into the headroom.
+  // - For the same reason, balances that grow are compared against MAX_AMOUNT less the growth.
+  // - Balance snapshots need the account's balances, which we only learn once an update fails on an account that turns
+  //   out to have the HISTORY flag. From then on, its updates are conditional on the version we know about.
+  // - Balancing transfers are clamped to the headroom of their accounts, which is learned the same way. The update is
+  //   then conditional on the headroom being what the amounts were clamped to.
+  // - Sharded accounts are discovered the same way. Each transaction updates one of their shards, picked at random,
+  //   and balance limits are enforced per shard: a shard without enough headroom is set aside for the rest of the batch
+  //   and the transfers re-driven against another one, until there are none left. Pending transfers record the shards
+  //   they reserved their amounts on, and posts and voids release them from those shards.
+  for (const { accountId, shard, delta, contributions } of accountDeltas.values()) {
+    const headroom = balanceHeadroom(delta);
+    const lowest = lowestHeadroom(contributions);
+    const conditions: string[] = [];
+    const conditionValues: Record<string, any> = {};
+    if (opts.strictAccounts) {
+      // All transfers touching the account must agree with its ledger; if they don't agree among themselves, the
+      // condition can never hold and the account's actual ledger tells us which ones were wrong.
+      conditions.push("attribute_exists(pk)");
+      const ledgers = Array.from(new Set(contributions.map(({ transfer }) => transfer.transfer.ledger)));
+      ledgers.forEach((ledger, i) => {
+        conditions.push(`ledger = :ledger${i}`);
+        conditionValues[`:ledger${i}`] = ledger;
+      });
+    }
+    // Closed and frozen accounts still let voids through, so that their pending transfers can be released
+    const restricted = contributions.filter(
+      ({ transfer }) => !isFlagSet(transfer.transfer.flags, TransferFlags.VOID_PENDING_TRANSFER),
+    );
+    if (restricted.length > 0) {
+      conditions.push("NOT contains(flags, :closed)");
+      conditionValues[":closed"] = AccountFlags[AccountFlags.CLOSED];
+    }
+    if (restricted.some(({ transfer }) => transfer.transfer.debit_account_id === accountId)) {
+      conditions.push("NOT contains(flags, :debits_frozen)");
+      conditionValues[":debits_frozen"] = AccountFlags[AccountFlags.DEBITS_FROZEN];
+    }
+    if (restricted.some(({ transfer }) => transfer.transfer.credit_account_id === accountId)) {
+      conditions.push("NOT contains(flags, :credits_frozen)");
+      conditionValues[":credits_frozen"] = AccountFlags[AccountFlags.CREDITS_FROZEN];
+    }
+    if (lowest.debit_headroom < 0n) {
+      conditions.push("(NOT contains(flags, :debits_limit) OR debit_headroom >= :debits_required)");
+      conditionValues[":debits_limit"] = AccountFlags[AccountFlags.DEBITS_MUST_NOT_EXCEED_CREDITS];
+      conditionValues[":debits_required"] = -lowest.debit_headroom;
+    }
+    if (lowest.credit_headroom < 0n) {
+      conditions.push("(NOT contains(flags, :credits_limit) OR credit_headroom >= :credits_required)");
+      conditionValues[":credits_limit"] = AccountFlags[AccountFlags.CREDITS_MUST_NOT_EXCEED_DEBITS];
+      conditionValues[":credits_required"] = -lowest.credit_headroom;
+    }
+    for (const balance of BALANCES) {
+      if (delta[balance] > 0n) {
+        conditions.push(`(attribute_not_exists(${balance}) OR ${balance} <= :${balance}_max)`);
+        conditionValues[`:${balance}_max`] = MAX_AMOUNT - delta[balance];
+      }
+    }
+    const balancing = balancingSides(accountId, contributions);
+    if (balancing.debit || balancing.credit) {
+      const seenHeadroom = known.headroom.get(accountKey(accountId, shard).pk);
+      if (seenHeadroom === undefined) {
+        // The amounts were clamped as if the account were empty
+        conditions.push("attribute_not_exists(pk)");
+      }
+      if (seenHeadroom !== undefined && balancing.debit) {
+        conditions.push("debit_headroom = :debit_headroom_seen");
+        conditionValues[":debit_headroom_seen"] = seenHeadroom.debit_headroom;
+      }
+      if (seenHeadroom !== undefined && balancing.credit) {
+        conditions.push("credit_headroom = :credit_headroom_seen");
+        conditionValues[":credit_headroom_seen"] = seenHeadroom.credit_headroom;
+      }
+    }
+    const seen = known.history.get(accountId);
+    if (shard !== undefined) {
+      // Shards are created along with the account, so an update must never create one. Sharded accounts can't have
+      // the HISTORY flag.
+      if (!opts.strictAccounts) {
+        conditions.push("attribute_exists(pk)");
+      }
+    } else if (seen) {
+      conditions.push(seen.version > 0 ? "version = :version" : "attribute_not_exists(version)");
+      if (seen.version > 0) {
+        conditionValues[":version"] = seen.version;
+      }
+    } else {
+      conditions.push("NOT contains(flags, :history)", "attribute_not_exists(shards)");
+      conditionValues[":history"] = AccountFlags[AccountFlags.HISTORY];
+    }
+
+    items.push({
+      Update: {
+        TableName: tableName,
+        Key: accountKey(accountId, shard),
+        UpdateExpression:
+          "ADD debits_pending :debits_pending, debits_posted :debits_posted, credits_pending :credits_pending, credits_posted :credits_posted, " +
+          "debit_headroom :debit_headroom, credit_headroom :credit_headroom" +
+          (seen ? ", version :one" : ""),
+        ConditionExpression: conditions.join(" AND "),
+        ReturnValuesOnConditionCheckFailure: "ALL_OLD",
+        ExpressionAttributeValues: {
+          ":debits_pending": delta.debits_pending,
+          ":debits_posted": delta.debits_posted,
+          ":credits_pending": delta.credits_pending,
+          ":credits_posted": delta.credits_posted,
+          ":debit_headroom": headroom.debit_headroom,
+          ":credit_headroom": headroom.credit_headroom,
+          ...(seen ? { ":one": 1 } : {}),
+          ...conditionValues,
+        },
+      },
+    });
+    owners.push({ kind: "account", accountId, shard, contributions, strict: opts.strictAccounts ?? false });
+
+    if (seen) {
+      const balances = { ...seen.balances };
+      contributions.forEach(({ transfer, delta }, i) => {
+        addDelta(balances, delta);
+        // A transfer from the account to itself contributes twice, but gets a single snapshot
+        if (contributions[i + 1]?.transfer === transfer) {
+          return;
+        }
+        items.push(
+          balanceSnapshotItem(tableName, accountId, transfer.timestamp!, transfer.transfer.id, { ...balances }),
+        );
+        owners.push({ kind: "snapshot", transfer });
+      });
+    }
+  }
+
+  items.push(clockUpdate(tableName, timestamps));
+  owners.push({ kind: "clock", transfers: prepared });
+
+  return { items, owners, unresolved };
+}
+
+/**
+ * The balance changes a single transfer makes to its debit and credit accounts.
+ */
+function transferDeltas({ transfer, pending, balancedAmount }: PreparedTransfer): [AccountId, AccountDelta][] {
+  const debit = emptyDelta();
+  const credit = emptyDelta();
+  const amount = balancedAmount ?? transfer.amount;
+  if (pending) {
+    // Release the reserved amount; a post then moves the (possibly smaller) final amount into the posted balances.
+    debit.debits_pending -= pending.amount;
+    credit.credits_pending -= pending.amount;
+    if (isFlagSet(transfer.flags, TransferFlags.POST_PENDING_TRANSFER)) {
+      debit.debits_posted += transfer.amount;
+      credit.credits_posted += transfer.amount;
+    }
+  } else if (isFlagSet(transfer.flags, TransferFlags.PENDING)) {
+    debit.debits_pending += amount;
+    credit.credits_pending += amount;
+  } else {
+    debit.debits_posted += amount;
+    credit.credits_posted += amount;
+  }
+  return [
+    [transfer.debit_account_id, debit],
+    [transfer.credit_account_id, credit],
+  ];
+}
+
+/**
+ * The shard of the account that a transfer updates: for posts and voids, the one the pending transfer reserved its
+ * amount on, and otherwise the transaction's.
+ */
+function transferShard(
+  { pending }: PreparedTransfer,
+  accountId: AccountId,
+  shardOf: (accountId: AccountId) => number | undefined,
+): number | undefined {
+  const reserved = pending && (accountId === pending.debit_account_id ? pending.debit_shard : pending.credit_shard);
+  return reserved ?? shardOf(accountId);
+}
+
+function reservedShards(
+  transfer: Transfer,
+  shardOf: (accountId: AccountId) => number | undefined,
+): { debit_shard?: number; credit_shard?: number } {
+  const debit = shardOf(transfer.debit_account_id);
+  const credit = shardOf(transfer.credit_account_id);
+  return {
+    ...(debit !== undefined ? { debit_shard: debit } : {}),
+    ...(credit !== undefined ? { credit_shard: credit } : {}),
+  };
+}
+
+/**
+ * Clamps the amounts of balancing transfers to the headroom of the account items they draw on: as last seen, or empty
+ * if they haven't been seen yet, and as changed by the transfers before them. Returns the posts and voids that no longer
+ * resolve the pending transfer created earlier in their chain, as clamped, with the reason why.
+ */
+function clampBalancingTransfers(
+  prepared: PreparedTransfer[],
+  known: KnownAccounts,
+  shardOf: (accountId: AccountId) => number | undefined,
+): [number, TransferResult][] {
+  const unresolved: [number, TransferResult][] = [];
+  const headroom: Map<string, Headroom> = new Map();
+  const headroomOf = (accountId: AccountId, shard = shardOf(accountId)) => {
+    const key = accountKey(accountId, shard).pk;
+    let h = headroom.get(key);
+    if (!h) {
+      h = { ...(known.headroom.get(key) ?? { debit_headroom: 0n, credit_headroom: 0n }) };
+      headroom.set(key, h);
+    }
+    return h;
+  };
+
+  for (const p of prepared) {
+    if (p.pendingInChain) {
+      // Posts and voids of a pending transfer created earlier in their chain resolve the amount it was clamped to
+      const { prepared: created, submitted } = p.pendingInChain;
+      if (!prepared.includes(created)) {
+        unresolved.push([p.index, TransferResult.PENDING_TRANSFER_NOT_FOUND]);
+        continue;
+      }
+      const pending = { ...p.pending!, amount: created.balancedAmount ?? created.transfer.amount };
+      const resolution = resolvePendingTransfer(submitted, pending);
+      if ("result" in resolution) {
+        unresolved.push([p.index, resolution.result]);
+        continue;
+      }
+      p.pending = pending;
+      p.transfer = resolution.transfer;
+    }
+    if (isFlagSet(p.transfer.flags, TransferFlags.BALANCING_DEBIT | TransferFlags.BALANCING_CREDIT)) {
+      let amount = p.transfer.amount;
+      if (isFlagSet(p.transfer.flags, TransferFlags.BALANCING_DEBIT)) {
+        amount = minAmount(amount, headroomOf(p.transfer.debit_account_id).debit_headroom);
+      }
+      if (isFlagSet(p.transfer.flags, TransferFlags.BALANCING_CREDIT)) {
+        amount = minAmount(amount, headroomOf(p.transfer.credit_account_id).credit_headroom);
+      }
+      p.balancedAmount = amount;
+    }
+    for (const [accountId, delta] of transferDeltas(p)) {
+      const change = balanceHeadroom(delta);
+      const h = headroomOf(accountId, transferShard(p, accountId, shardOf));
+      h.debit_headroom += change.debit_headroom;
+      h.credit_headroom += change.credit_headroom;
+    }
+  }
+  return unresolved;
+}
+
+function minAmount(amount: Amount, headroom: Amount): Amount {
+  return headroom <= 0n ? 0n : headroom < amount ? headroom : amount;
+}
+
+/**
+ * Whether any of the transfers updating the account draw on its debit or credit headroom as balancing transfers.
+ */
+function balancingSides(
+  accountId: AccountId,
+  contributions: { transfer: PreparedTransfer; delta: AccountDelta }[],
+): { debit: boolean; credit: boolean } {
+  const transfers = contributions.map(({ transfer }) => transfer.transfer);
+  return {
+    debit: transfers.some((t) => t.debit_account_id === accountId && isFlagSet(t.flags, TransferFlags.BALANCING_DEBIT)),
+    credit: transfers.some(
+      (t) => t.credit_account_id === accountId && isFlagSet(t.flags, TransferFlags.BALANCING_CREDIT),
+    ),
+  };
+}
+
+function isConflictOnly(err: dynamodb.TransactionCanceledException): boolean {
+  const codes = (err.CancellationReasons ?? []).map((reason) => reason.Code).filter((code) => code !== "None");
+  return codes.length > 0 && codes.every((code) => code === "TransactionConflict");
+}
+
+/**
+ * Attributes the per-item cancellation reasons of a failed transaction back to the transfers the items were built from.
+ * Transfers that weren't at fault are left as OK; it's up to the caller to decide what that means for them.
+ */
+function transferResultsFromCancellation(
+  err: dynamodb.TransactionCanceledException,
+  owners: ItemOwner[],
+  known: KnownAccounts,
+  results: TransferResult[],
+): TransferResult[] {
+  const mapped = [...results];
+  const reasons = err.CancellationReasons ?? [];
+  if (reasons.length !== owners.length) {
+    throw err;
+  }
+
+  reasons.forEach((reason, i) => {
+    const owner = owners[i];
+    const item = reason.Item ? unmarshall(reason.Item) : undefined;
+    switch (reason.Code) {
+      case "None":
+        return;
+      case "TransactionConflict":
+        if (owner.kind === "clock") {
+          clockRedriveResults(owner, item, known).forEach(([index, result]) => (mapped[index] = result));
+          return;
+        }
+        for (const { transfer } of owner.kind === "account" ? owner.contributions : [owner]) {
+          mapped[transfer.index] = TransferResult.CONFLICT;
+        }
+        return;
+      case "ConditionalCheckFailed":
+        for (const [index, result] of conditionFailureResults(owner, item, known)) {
+          // A transfer that already exists is reported as such, regardless of what else its resubmission ran into.
+          if (
+            mapped[index] !== TransferResult.EXISTS &&
+            mapped[index] !== TransferResult.EXISTS_WITH_DIFFERENT_FIELDS
+          ) {
+            mapped[index] = result;
+          }
+        }
+        return;
+      default:
+        // Anything else – throttling, validation errors – is not a property of the transfers themselves.
+        throw err;
+    }
+  });
+
+  return mapped;
+}
+
+function conditionFailureResults(
+  owner: ItemOwner,
+  item: Record<string, any> | undefined,
+  known: KnownAccounts,
+): [number, TransferResult][] {
+  switch (owner.kind) {
+    case "transfer":
+      return [[owner.transfer.index, existingTransferResult(owner.transfer.transfer, item)]];
+    case "pending":
+      return [
+        [
+          owner.transfer.index,
+          item === undefined
+            ? TransferResult.PENDING_TRANSFER_NOT_FOUND
+            : item.pending_status === PendingStatus.VOIDED
+              ? TransferResult.PENDING_TRANSFER_ALREADY_VOIDED
+              : item.pending_status === PendingStatus.POSTED
+                ? TransferResult.PENDING_TRANSFER_ALREADY_POSTED
+                : TransferResult.PENDING_TRANSFER_EXPIRED,
+        ],
+      ];
+    case "snapshot":
+      return [];
+    case "clock":
+      return clockRedriveResults(owner, item, known);
+    case "account": {
+      // A sharded account we didn't know about: the transfers are re-driven against one of its shards. A release of a
+      // pending transfer is already bound for a shard, but doesn't tell how many there are.
+      if (!known.shards.has(owner.accountId) && item?.shards !== undefined) {
+        known.shards.set(owner.accountId, item.shards);
+        return [];
+      }
+      // A HISTORY account we didn't know about, or that has changed since: nobody is at fault, and the transfers are
+      // re-driven with its current balances.
+      const version = item?.version ?? 0;
+      if (
+        isFlagSet(accountFlagsFromItem(item?.flags), AccountFlags.HISTORY) &&
+        known.history.get(owner.accountId)?.version !== version
+      ) {
+        known.history.set(owner.accountId, { version, balances: balancesFromItem(item!) });
+        return [];
+      }
+      // The headroom that balancing transfers were clamped to has changed, or was assumed: they're re-driven with the
+      // headroom the account has now.
+      const balancing = balancingSides(owner.accountId, owner.contributions);
+      if (item !== undefined && (balancing.debit || balancing.credit)) {
+        const key = accountKey(owner.accountId, owner.shard).pk;
+        const seen = known.headroom.get(key);
+        const actual = headroomFromItem(item);
+        if (
+          seen === undefined ||
+          (balancing.debit && seen.debit_headroom !== actual.debit_headroom) ||
+          (balancing.credit && seen.credit_headroom !== actual.credit_headroom)
+        ) {
+          known.headroom.set(key, actual);
+          return [];
+        }
+      }
+      if (owner.strict) {
+        if (item === undefined) {
+          return owner.contributions.map(({ transfer }) => [transfer.index, TransferResult.ACCOUNT_NOT_FOUND]);
+        }
+        const mismatched = owner.contributions.filter(({ transfer }) => transfer.transfer.ledger !== item.ledger);
+        if (mismatched.length > 0) {
+          return mismatched.map(({ transfer }) => [transfer.index, TransferResult.LEDGER_MISMATCH]);
+        }
+      }
+      const rejected = accountStateResults(owner.accountId, item, owner.contributions);
+      if (rejected.length > 0) {
+        return rejected;
+      }
+      const overflows = balanceOverflowResults(item, owner.contributions);
+      if (overflows.length > 0) {
+        return overflows;
+      }
+      if (owner.shard !== undefined && item !== undefined) {
+        // Try another shard, as long as there are any left that haven't run out of headroom
+        const exhausted = known.exhaustedShards.get(owner.accountId) ?? new Map();
+        exhausted.set(owner.shard, headroomFromItem(item));
+        known.exhaustedShards.set(owner.accountId, exhausted);
+        if (exhausted.size < known.shards.get(owner.accountId)!) {
+          return [];
+        }
+        return shardHeadroomResults(balanceLimitResults(item, owner.contributions), owner.contributions, [
+          ...exhausted.values(),
+        ]);
+      }
+      return balanceLimitResults(item, owner.contributions);
+    }
+  }
+}
+
+/**
+ * Compares a resubmitted transfer with the one stored under its id. Exported, like the other rules transfers are checked
+ * against, for ledger stores that don't keep transfers in DynamoDB.
+ */
+export function existingTransferResult(transfer: Transfer, existing: Record<string, any> | undefined): TransferResult {
+  if (existing === undefined) {
+    return TransferResult.EXISTS;
+  }
+  // The original submission had no timestamp either, it was assigned on commit
+  const { pending_status, timestamp, ...stored }: Record<string, any> = transferFromItem(existing);
+  const submitted: Record<string, any> = { ...transfer };
+  // Post and void transfers are stored with the values they inherited from the pending transfer
+  const inherited = isFlagSet(transfer.flags, TransferFlags.POST_PENDING_TRANSFER | TransferFlags.VOID_PENDING_TRANSFER)
+    ? ["debit_account_id", "credit_account_id", "ledger", "amount"]
+    : [];
+  const fields = new Set([...Object.keys(stored), ...Object.keys(submitted)]);
+  // Balancing transfers are stored with the amount they were clamped to
+  const balancing = isFlagSet(transfer.flags, TransferFlags.BALANCING_DEBIT | TransferFlags.BALANCING_CREDIT);
+  for (const field of fields) {
+    if (inherited.includes(field) && Number(submitted[field]) === 0) {
+      continue;
+    }
+    if (field === "amount" && balancing && stored.amount <= submitted.amount) {
+      continue;
+    }
+    if (stored[field] !== submitted[field]) {
+      return TransferResult.EXISTS_WITH_DIFFERENT_FIELDS;
+    }
+  }
+  return TransferResult.EXISTS;
+}
+
+/**
+ * The result of the first transfer that failed in its own right, if any, otherwise whether all of them were applied.
+ */
+export function overallResult(results: TransferResult[]): TransferResult {
+  // Prefer the root cause over the knock-on failures it caused elsewhere in the batch
+  const knockOn = [TransferResult.BATCH_CANCELLED, TransferResult.LINKED_EVENT_FAILED];
+  return (
+    results.find((result) => !isApplied(result) && !knockOn.includes(result)) ??
+    knockOn.find((result) => results.includes(result)) ??
+    TransferResult.OK
+  );
+}
+
+/**
+ * Whether the transfer has taken effect, either now or by an earlier submission.
+ */
+export function isApplied(result: TransferResult): boolean {
+  return result === TransferResult.OK || result === TransferResult.EXISTS;
+}
+
+/**
+ * The transfers that a closed or frozen account rejects, as of the failed account update.
+ */
+function accountStateResults(
+  accountId: AccountId,
+  account: Record<string, any> | undefined,
+  contributions: { transfer: PreparedTransfer; delta: AccountDelta }[],
+): [number, TransferResult][] {
+  const flags = accountFlagsFromItem(account?.flags);
+  const rejected: [number, TransferResult][] = [];
+  for (const { transfer } of contributions) {
+    if (isFlagSet(transfer.transfer.flags, TransferFlags.VOID_PENDING_TRANSFER)) {
+      continue;
+    }
+    const debited = transfer.transfer.debit_account_id === accountId;
+    const credited = transfer.transfer.credit_account_id === accountId;
+    if (isFlagSet(flags, AccountFlags.CLOSED)) {
+      rejected.push([
+        transfer.index,
+        debited ? TransferResult.DEBIT_ACCOUNT_CLOSED : TransferResult.CREDIT_ACCOUNT_CLOSED,
+      ]);
+    } else if (debited && isFlagSet(flags, AccountFlags.DEBITS_FROZEN)) {
+      rejected.push([transfer.index, TransferResult.DEBITS_FROZEN]);
+    } else if (credited && isFlagSet(flags, AccountFlags.CREDITS_FROZEN)) {
+      rejected.push([transfer.index, TransferResult.CREDITS_FROZEN]);
+    }
+  }
+  return rejected;
+}
+
+/**
+ * Replays the transfers contributing to a failed account update, in batch order, against the account's headroom at the
+ * time of the failure to find the ones that would have breached a balance limit.
+ */
+/**
+ * Tells apart the transfers that ran out of headroom on every shard of a sharded account, but that the headroom of all
+ * its shards taken together would have covered.
+ */
+function shardHeadroomResults(
+  violations: [number, TransferResult][],
+  contributions: { transfer: PreparedTransfer; delta: AccountDelta }[],
+  shards: Headroom[],
+): [number, TransferResult][] {
+  const total = shards.reduce(
+    (acc, h) => ({
+      debit_headroom: acc.debit_headroom + h.debit_headroom,
+      credit_headroom: acc.credit_headroom + h.credit_headroom,
+    }),
+    { debit_headroom: 0n, credit_headroom: 0n },
+  );
+  return violations.map(([index, result]) => {
+    const contribution = contributions.find(({ transfer }) => transfer.index === index);
+    const change = contribution && balanceHeadroom(contribution.delta);
+    const covered =
+      change !== undefined &&
+      ((result === TransferResult.INSUFFICIENT_FUNDS && total.debit_headroom + change.debit_headroom >= 0n) ||
+        (result === TransferResult.EXCEEDS_DEBITS && total.credit_headroom + change.credit_headroom >= 0n));
+    return [index, covered ? TransferResult.EXCEEDS_SHARD_HEADROOM : result];
+  });
+}
+
+function balanceLimitResults(
+  account: Record<string, any> | undefined,
+  contributions: { transfer: PreparedTransfer; delta: AccountDelta }[],
+): [number, TransferResult][] {
+  const flags = accountFlagsFromItem(account?.flags);
+  const violations = replayContributions(
+    contributions,
+    () => ({ ...headroomFromItem(account ?? {}) }),
+    (headroom, delta) => {
+      const change = balanceHeadroom(delta);
+      if (
+        isFlagSet(flags, AccountFlags.DEBITS_MUST_NOT_EXCEED_CREDITS) &&
+        change.debit_headroom < 0n &&
+        headroom.debit_headroom + change.debit_headroom < 0n
+      ) {
+        return TransferResult.INSUFFICIENT_FUNDS;
+      }
+      if (
+        isFlagSet(flags, AccountFlags.CREDITS_MUST_NOT_EXCEED_DEBITS) &&
+        change.credit_headroom < 0n &&
+        headroom.credit_headroom + change.credit_headroom < 0n
+      ) {
+        return TransferResult.EXCEEDS_DEBITS;
+      }
+      headroom.debit_headroom += change.debit_headroom;
+      headroom.credit_headroom += change.credit_headroom;
+      return undefined;
+    },
+  );
+
+  // The account may have changed between the failed condition and reading it back; blame every transfer that ate into
+  // the headroom rather than none at all.
+  if (violations.length === 0) {
+    for (const { transfer, delta } of contributions) {
+      const change = balanceHeadroom(delta);
+      if (change.debit_headroom < 0n) {
+        violations.push([transfer.index, TransferResult.INSUFFICIENT_FUNDS]);
+      } else if (change.credit_headroom < 0n) {
+        violations.push([transfer.index, TransferResult.EXCEEDS_DEBITS]);
+      }
+    }
+  }
+  return violations;
+}
+
+/**
+ * Replays the transfers contributing to a failed account update against the account's balances at the time of the
+ * failure to find the ones that would have taken a balance beyond MAX_AMOUNT.
+ */
+function balanceOverflowResults(
+  account: Record<string, any> | undefined,
+  contributions: { transfer: PreparedTransfer; delta: AccountDelta }[],
+): [number, TransferResult][] {
+  return replayContributions(
+    contributions,
+    () => balancesFromItem(account ?? {}),
+    (balances, delta) => {
+      const overflowing = BALANCES.find((balance) => balances[balance] + delta[balance] > MAX_AMOUNT);
+      if (overflowing) {
+        return BALANCE_OVERFLOWS[overflowing];
+      }
+      addDelta(balances, delta);
+      return undefined;
+    },
+  );
+}
+
+/**
+ * Applies the contributions to an account in batch order, leaving out those that `apply` rejects. A linked chain with a
+ * rejected member fails as a whole, so the replay starts over without it: its other members mustn't count for or
+ * against the transfers after them.
+ */
+function replayContributions<State>(
+  contributions: { transfer: PreparedTransfer; delta: AccountDelta }[],
+  initial: () => State,
+  apply: (state: State, delta: AccountDelta) => TransferResult | undefined,
+): [number, TransferResult][] {
+  const violations: [number, TransferResult][] = [];
+  const failedChains: Set<number[]> = new Set();
+  replay: for (;;) {
+    const state = initial();
+    const rejected: [number, TransferResult][] = [];
+    for (const { transfer, delta } of contributions) {
+      if (transfer.chain && failedChains.has(transfer.chain)) {
+        continue;
+      }
+      const result = apply(state, delta);
+      if (result === undefined) {
+        continue;
+      }
+      if (transfer.chain && transfer.chain.length > 1) {
+        violations.push([transfer.index, result]);
+        failedChains.add(transfer.chain);
+        continue replay;
+      }
+      rejected.push([transfer.index, result]);
+    }
+    return [...violations, ...rejected];
+  }
+}
+
+/**
+ * The amounts by which an account's debits and credits may still grow before hitting the respective balance limit.
+ * Applied to a delta, these are the change in headroom.
+ */
+function balanceHeadroom(balances: AccountDelta): Headroom {
+  return {
+    debit_headroom: balances.credits_posted - balances.debits_posted - balances.debits_pending,
+    credit_headroom: balances.debits_posted - balances.credits_posted - balances.credits_pending,
+  };
+}
+
+/**
+ * The lowest the headroom gets as the contributions are applied in batch order, relative to where it starts; zero if
+ * they only ever add to it.
+ */
+function lowestHeadroom(contributions: { delta: AccountDelta }[]): Headroom {
+  const running: Headroom = { debit_headroom: 0n, credit_headroom: 0n };
+  const lowest: Headroom = { ...running };
+  for (const { delta } of contributions) {
+    const change = balanceHeadroom(delta);
+    running.debit_headroom += change.debit_headroom;
+    running.credit_headroom += change.credit_headroom;
+    lowest.debit_headroom =
+      running.debit_headroom < lowest.debit_headroom ? running.debit_headroom : lowest.debit_headroom;
+    lowest.credit_headroom =
+      running.credit_headroom < lowest.credit_headroom ? running.credit_headroom : lowest.credit_headroom;
+  }
+  return lowest;
+}
+
+// Account flags are stored as a string set of flag names, rather than the numeric bitset, so that condition
+// expressions can test individual flags with contains().
+function accountFlagsToItem(flags: AccountFlags | undefined): Set<string> | undefined {
+  const names = new Set<string>();
+  for (const flag of Object.values(AccountFlags)) {
+    if (typeof flag === "number" && isFlagSet(flags, flag)) {
+      names.add(AccountFlags[flag]);
+    }
+  }
+  // DynamoDB doesn't allow empty sets
+  return names.size > 0 ? names : undefined;
+}
+
+function accountFlagsFromItem(names: Set<string> | undefined): AccountFlags | undefined {
+  if (names === undefined) {
+    return undefined;
+  }
+  let flags = AccountFlags.NONE;
+  for (const name of names) {
+    flags |= AccountFlags[name as keyof typeof AccountFlags] ?? 0;
+  }
+  return flags;
+}
+
+function freezeFlags(accountId: AccountId, flags: AccountFlags): AccountFlags {
+  const freeze = AccountFlags.DEBITS_FROZEN | AccountFlags.CREDITS_FROZEN;
+  if (flags === AccountFlags.NONE || (flags & ~freeze) !== 0) {
+    throw new ValidationError(`Account ${accountId}: only DEBITS_FROZEN and CREDITS_FROZEN can be frozen or unfrozen`);
+  }
+  return flags;
+}
+
+/**
+ * Adds or removes flags on the account item and all of its shards in one transaction, since transfers only check the
+ * shard they update. Requiring a zero balance conditions each item on the balances it was read with, so that the check
+ * holds until the flags are written.
+ */
+async function updateAccountFlags(
+  client: ddc.DynamoDBDocumentClient,
+  tableName: string,
+  accountId: AccountId,
+  action: "ADD" | "DELETE",
+  flags: AccountFlags,
+  requireZeroBalance = false,
+): Promise<void> {
+  const account = await withLedgerErrors(() =>
+    client.send(new ddc.GetCommand({ TableName: tableName, Key: accountKey(accountId), ConsistentRead: true })),
+  );
+  if (!account.Item) {
+    throw new AccountNotFoundError(accountId);
+  }
+  const shards: number = account.Item.shards ?? 1;
+
+  const expected: Map<string, AccountDelta> = new Map();
+  if (requireZeroBalance) {
+    const { items: shardItems } = await withLedgerErrors(() =>
+      batchGetItems(
+        client,
+        tableName,
+        Array.from({ length: shards - 1 }, (_, i) => accountKey(accountId, i + 1)),
+      ),
+    );
+    const total = emptyDelta();
+    for (const item of [account.Item, ...shardItems]) {
+      expected.set(item.pk, balancesFromItem(item));
+      addDelta(total, balancesFromItem(item));
+    }
+    if (total.debits_pending !== 0n || total.credits_pending !== 0n || total.debits_posted !== total.credits_posted) {
+      throw new ValidationError(`Account ${accountId}: balance must be zero to close it`);
+    }
+  }
+
+  const items: TransactItems = Array.from({ length: shards }, (_, shard) => {
+    const key = accountKey(accountId, shard);
+    const balances = expected.get(key.pk);
+    const unchanged = balances ? BALANCES.map((balance) => [balance, balances[balance]] as const) : [];
+    return {
+      Update: {
+        TableName: tableName,
+        Key: key,
+        UpdateExpression: `${action} flags :flags`,
+        ConditionExpression: ["attribute_exists(pk)", ...unchanged.map(([balance]) => `${balance} = :${balance}`)].join(
+          " AND ",
+        ),
+        ExpressionAttributeValues: {
+          ":flags": accountFlagsToItem(flags),
+          ...Object.fromEntries(unchanged.map(([balance, value]) => [`:${balance}`, value])),
+        },
+      },
+    };
+  });
+  try {
+    await client.send(new ddc.TransactWriteCommand({ TransactItems: items }));
+  } catch (err) {
+    if (
+      err instanceof dynamodb.TransactionCanceledException &&
+      err.CancellationReasons?.some((reason) => reason.Code === "ConditionalCheckFailed")
+    ) {
+      throw new ConflictError(`Account ${accountId}: changed while updating its flags, try again`, { cause: err });
+    }
+    throw ledgerError(err);
+  }
+}
+
+/**
+ * Shard 0 is the account item itself; the others only hold a share of its balances.
+ */
+function accountKey(accountId: AccountId, shard = 0): { pk: string; sk: string } {
+  const key = shard > 0 ? `account#${accountId}#shard#${shard}` : `account#${accountId}`;
+  return { pk: key, sk: key };
+}
+
+function pickShard(shards: number, exhausted: Map<number, Headroom> | undefined): number {
+  const candidates = Array.from({ length: shards }, (_, shard) => shard).filter((shard) => !exhausted?.has(shard));
+  // Once all shards are exhausted, the update fails wherever it goes
+  const from = candidates.length > 0 ? candidates : [0];
+  return from[Math.floor(Math.random() * from.length)];
+}
+
+/**
+ * A hybrid logical clock: the latest timestamp this process has committed, or seen on the table's clock item, in a
+ * table. Timestamps follow the wall clock, except that they never go back, nor fall behind the table's clock.
+ */
+interface CommitClock {
+  timestamp: Timestamp;
+}
+
+// Remembered across batches as well, so that a process committing one batch after another doesn't keep running into
+// the clock having moved on.
+const commitClocks: Map<string, CommitClock> = new Map();
+
+// The item that records the last timestamp committed in the table
+const CLOCK_KEY = { pk: "clock", sk: "clock" };
+
+function commitClock(tableName: string): CommitClock {
+  let clock = commitClocks.get(tableName);
+  if (!clock) {
+    clock = { timestamp: 0 };
+    commitClocks.set(tableName, clock);
+  }
+  return clock;
+}
+
+/**
+ * Timestamps for the next items to commit, one millisecond apart: from the current time, or from just after the latest
+ * one if the clock has run ahead of it.
+ */
+function nextTimestamps(clock: CommitClock, count: number): Timestamp[] {
+  const first = Math.max(Date.now(), clock.timestamp + 1);
+  return Array.from({ length: count }, (_, i) => first + i);
+}
+
+/**
+ * Every transaction moves the table's clock on to its last timestamp, on condition that its first one comes after the
+ * clock. That serializes the transactions, whichever process writes them, and orders their timestamps as they commit.
+ */
+function clockUpdate(tableName: string, timestamps: Timestamp[]): ItemType {
+  return {
+    Update: {
+      TableName: tableName,
+      Key: CLOCK_KEY,
+      UpdateExpression: "SET last_timestamp = :last_timestamp",
+      ConditionExpression: "attribute_not_exists(last_timestamp) OR last_timestamp < :first_timestamp",
+      ExpressionAttributeValues: {
+        ":first_timestamp": timestamps[0],
+        ":last_timestamp": timestamps[timestamps.length - 1],
+      },
+      ReturnValuesOnConditionCheckFailure: "ALL_OLD",
+    },
+  };
+}
+
+function learnClock(clock: CommitClock, item: Record<string, any> | undefined) {
+  if (item?.last_timestamp !== undefined) {
+    clock.timestamp = Math.max(clock.timestamp, item.last_timestamp);
+  }
+}
+
+/**
+ * Another writer got to the table's clock first, with later timestamps or at the same time. Nobody is at fault, and the
+ * transfers are re-driven with timestamps after the clock's, unless that keeps happening.
+ */
+function clockRedriveResults(
+  owner: Extract<ItemOwner, { kind: "clock" }>,
+  item: Record<string, any> | undefined,
+  known: KnownAccounts,
+): [number, TransferResult][] {
+  learnClock(known.clock, item);
+  return ++known.clockRedrives > MAX_CLOCK_REDRIVES
+    ? owner.transfers.map((p) => [p.index, TransferResult.CONFLICT])
+    : [];
+}
+
+/**
+ * Racing other writers to the clock again right away would likely end the same way, so re-drives after the first back
+ * off first.
+ */
+async function clockBackoff(redrives: number) {
+  if (redrives > 1) {
+    await setTimeout(Math.random() * Math.min(10 * 2 ** redrives, 100));
+  }
+}
+
+// Shard counts never change once an account is created, so they are remembered for as long as the process lives.
+// Otherwise every batch would first have to rediscover that its hot accounts are sharded.
+const knownShardCounts: Map<string, Map<AccountId, number>> = new Map();
+
+function shardCounts(tableName: string): Map<AccountId, number> {
+  let counts = knownShardCounts.get(tableName);
+  if (!counts) {
+    counts = new Map();
+    knownShardCounts.set(tableName, counts);
+  }
+  return counts;
+}
+
+/**
+ * Adds up the balances of sharded accounts across their shards.
+ */
+async function withShardBalances(
+  client: ddc.DynamoDBDocumentClient,
+  tableName: string,
+  items: Record<string, any>[],
+): Promise<{ items: Record<string, any>[]; consumedReadCapacity: number }> {
+  const sharded = items.filter((item) => item.shards > 1);
+  if (sharded.length === 0) {
+    return { items, consumedReadCapacity: 0 };
+  }
+  const { items: shardItems, consumedReadCapacity } = await batchGetItems(
+    client,
+    tableName,
+    sharded.flatMap((item) =>
+      Array.from({ length: item.shards - 1 }, (_, i) => accountKey(Number.parseInt(item.pk.split("#")[1]), i + 1)),
+    ),
+    false,
+  );
+  const totals = new Map(items.map((item) => [item.pk, { ...item, ...balancesFromItem(item) }]));
+  for (const shardItem of shardItems) {
+    const total = totals.get(shardItem.pk.split("#").slice(0, 2).join("#"))!;
+    addDelta(total, balancesFromItem(shardItem));
+  }
+  return { items: Array.from(totals.values()), consumedReadCapacity };
+}
+
+function accountFromItem(item: Record<string, any>): Account {
+  return {
+    id: Number.parseInt(item.pk.split("#")[1]),
+    ...(item.user_data !== undefined ? { user_data: item.user_data } : {}),
+    ledger: item.ledger,
+    ...(item.code !== undefined ? { code: item.code } : {}),
+    ...(item.flags !== undefined ? { flags: accountFlagsFromItem(item.flags) } : {}),
+    ...balancesFromItem(item),
+    ...(item.timestamp !== undefined ? { timestamp: item.timestamp } : {}),
+    ...(item.shards !== undefined ? { shards: item.shards } : {}),
+  };
+}
+
+function balanceSnapshotItem(
+  tableName: string,
+  accountId: AccountId,
+  timestamp: Timestamp,
+  transferId: IdType | undefined,
+  balances: AccountDelta,
+): ItemType {
+  return {
+    Put: {
+      TableName: tableName,
+      Item: {
+        // Snapshots live alongside the account, in timestamp order
+        pk: `account#${accountId}`,
+        sk: balanceSortKey(timestamp, transferId ?? ""),
+        timestamp,
+        ...(transferId !== undefined ? { transfer_id: transferId } : {}),
+        ...balances,
+      },
+    },
+  };
+}
+
+function balanceFromItem(item: Record<string, any>): AccountBalance {
+  const { timestamp, transfer_id } = item;
+  return {
+    timestamp,
+    ...(transfer_id !== undefined ? { transfer_id } : {}),
+    ...balancesFromItem(item),
+  };
+}
+
+function balanceSortKey(timestamp: Timestamp, suffix = ""): string {
+  return `balance#${padTimestamp(timestamp)}#${suffix}`;
+}
+
+/**
+ * Zero-padded, so that timestamps in sort keys sort numerically.
+ */
+function padTimestamp(timestamp: Timestamp): string {
+  return String(timestamp).padStart(20, "0");
+}
+
+interface AccountDelta {
+  debits_pending: Amount;
+  debits_posted: Amount;
+  credits_pending: Amount;
+  credits_posted: Amount;
+}
+
+/**
+ * How far an account's debits and credits may still grow before hitting the respective balance limit.
+ */
+interface Headroom {
+  debit_headroom: Amount;
+  credit_headroom: Amount;
+}
+
+export const BALANCES: (keyof Balances)[] = ["debits_pending", "debits_posted", "credits_pending", "credits_posted"];
+
+const BALANCE_OVERFLOWS: Record<keyof AccountDelta, TransferResult> = {
+  debits_pending: TransferResult.OVERFLOWS_DEBITS_PENDING,
+  debits_posted: TransferResult.OVERFLOWS_DEBITS_POSTED,
+  credits_pending: TransferResult.OVERFLOWS_CREDITS_PENDING,
+  credits_posted: TransferResult.OVERFLOWS_CREDITS_POSTED,
+};
+
+function emptyDelta(): AccountDelta {
+  return { debits_pending: 0n, debits_posted: 0n, credits_pending: 0n, credits_posted: 0n };
+}
+
+function addDelta(total: AccountDelta, delta: AccountDelta) {
+  total.debits_pending += delta.debits_pending;
+  total.debits_posted += delta.debits_posted;
+  total.credits_pending += delta.credits_pending;
+  total.credits_posted += delta.credits_posted;
+}
+
+function isFlagSet(flags: number | undefined, mask: number): boolean {
+  return ((flags ?? 0) & mask) !== 0;
+}
+
+/**
+ * Nothing in the batch was written. Transfers that didn't fail in their own right are marked as cancelled.
+ */
+function cancelledBatch(results: TransferResult[]): CreateTransfersResult {
+  const cancelled = results.map((result) => (result === TransferResult.OK ? TransferResult.BATCH_CANCELLED : result));
+  return {
+    overallResult: overallResult(cancelled),
+    results: cancelled,
+    balancedAmounts: [],
+    timestamps: [],
+    transactions: [],
+    itemsWritten: 0,
+    consumedWriteCapacity: 0,
+    $metadata: {},
+  };
+}
+
+/**
+ * Checks a transfer by itself, before anything is read or written.
+ */
+export function validateTransfer(transfer: Transfer, opts: CreateTransfersOptions): TransferResult | undefined {
+  if (typeof transfer.amount !== "bigint" || transfer.amount < 0n || transfer.amount > MAX_AMOUNT) {
+    return TransferResult.AMOUNT_OUT_OF_RANGE;
+  }
+  if (opts.strictAccounts && transfer.debit_account_id === transfer.credit_account_id) {
+    return TransferResult.ACCOUNTS_MUST_BE_DIFFERENT;
+  }
+  if (transfer.timestamp !== undefined) {
+    return TransferResult.TIMESTAMP_MUST_NOT_BE_SET;
+  }
+
+  const twoPhaseFlags = [
+    TransferFlags.PENDING,
+    TransferFlags.POST_PENDING_TRANSFER,
+    TransferFlags.VOID_PENDING_TRANSFER,
+  ].filter((flag) => isFlagSet(transfer.flags, flag));
+  if (twoPhaseFlags.length > 1) {
+    return TransferResult.FLAGS_ARE_MUTUALLY_EXCLUSIVE;
+  }
+  // Posts and voids take their amount from the pending transfer; a pending transfer can be balancing instead
+  if (
+    isFlagSet(transfer.flags, TransferFlags.BALANCING_DEBIT | TransferFlags.BALANCING_CREDIT) &&
+    isFlagSet(transfer.flags, TransferFlags.POST_PENDING_TRANSFER | TransferFlags.VOID_PENDING_TRANSFER)
+  ) {
+    return TransferResult.FLAGS_ARE_MUTUALLY_EXCLUSIVE;
+  }
+
+  const resolvesPending = isFlagSet(
+    transfer.flags,
+    TransferFlags.POST_PENDING_TRANSFER | TransferFlags.VOID_PENDING_TRANSFER,
+  );
+  if (resolvesPending && transfer.pending_id === undefined) {
+    return TransferResult.PENDING_ID_REQUIRED;
+  }
+  if (!resolvesPending && transfer.pending_id !== undefined) {
+    return TransferResult.PENDING_ID_MUST_NOT_BE_SET;
+  }
+  if (transfer.pending_id === transfer.id) {
+    return TransferResult.PENDING_ID_MUST_BE_DIFFERENT;
+  }
+  if (transfer.timeout !== 0 && !isFlagSet(transfer.flags, TransferFlags.PENDING)) {
+    return TransferResult.TIMEOUT_RESERVED_FOR_PENDING_TRANSFER;
+  }
+  return undefined;
+}
+
+/**
+ * Fills in the accounts, ledger and amount of a post or void transfer from the pending transfer it references and
+ * checks that any explicitly supplied values agree with it. Zero values are inherited from the pending transfer.
+ */
+export function resolvePendingTransfer(
+  transfer: Transfer,
+  pending: PendingTransferItem | undefined,
+): { transfer: Transfer } | { result: TransferResult } {
+  if (!pending) {
+    return { result: TransferResult.PENDING_TRANSFER_NOT_FOUND };
+  }
+  if (!isFlagSet(pending.flags, TransferFlags.PENDING)) {
+    return { result: TransferResult.PENDING_TRANSFER_NOT_PENDING };
+  }
+  if (transfer.debit_account_id !== 0 && transfer.debit_account_id !== pending.debit_account_id) {
+    return { result: TransferResult.PENDING_TRANSFER_HAS_DIFFERENT_DEBIT_ACCOUNT_ID };
+  }
+  if (transfer.credit_account_id !== 0 && transfer.credit_account_id !== pending.credit_account_id) {
+    return { result: TransferResult.PENDING_TRANSFER_HAS_DIFFERENT_CREDIT_ACCOUNT_ID };
+  }
+  if (transfer.ledger !== 0 && transfer.ledger !== pending.ledger) {
+    return { result: TransferResult.PENDING_TRANSFER_HAS_DIFFERENT_LEDGER };
+  }
+  if (pending.pending_status === PendingStatus.POSTED) {
+    return { result: TransferResult.PENDING_TRANSFER_ALREADY_POSTED };
+  }
+  if (pending.pending_status === PendingStatus.VOIDED) {
+    return { result: TransferResult.PENDING_TRANSFER_ALREADY_VOIDED };
+  }
+  if (
+    pending.pending_status === PendingStatus.EXPIRED ||
+    (pending.expires_at !== undefined && pending.expires_at <= Date.now())
+  ) {
+    return { result: TransferResult.PENDING_TRANSFER_EXPIRED };
+  }
+
+  const amount = transfer.amount === 0n ? pending.amount : transfer.amount;
+  if (isFlagSet(transfer.flags, TransferFlags.VOID_PENDING_TRANSFER) && amount !== pending.amount) {
+    return { result: TransferResult.PENDING_TRANSFER_HAS_DIFFERENT_AMOUNT };
+  }
+  if (amount > pending.amount) {
+    return { result: TransferResult.EXCEEDS_PENDING_TRANSFER_AMOUNT };
+  }
+
+  return {
+    transfer: {
+      ...transfer,
+      debit_account_id: pending.debit_account_id,
+      credit_account_id: pending.credit_account_id,
+      ledger: pending.ledger,
+      amount,
+    },
+  };
+}
+
+export type PendingTransferItem = Transfer & {
+  pending_status?: PendingStatus;
+  expires_at?: Timestamp;
+  /** For sharded accounts, the shards the amount was reserved on, which posting or voiding it releases it from. */
+  debit_shard?: number;
+  credit_shard?: number;
+};
+
+/** The transfer stored in an item, without the keys of the table and its indexes. */
+export function transferFromItem(item: Record<string, any>): Transfer {
+  const { pk, sk, debit_shard, credit_shard, ...transfer } = withoutIndexKeys(item);
+  return { ...transfer, amount: amountFromItem(item.amount) } as Transfer;
+}
+
+/**
+ * A JSON.stringify replacer for amounts and balances, which are bigints that JSON has no representation for: they are
+ * written as decimal strings.
+ */
+export function bigintsAsStrings(_key: string, value: unknown): unknown {
+  return typeof value === "bigint" ? String(value) : value;
+}
+
+/**
+ * Numbers are read back from DynamoDB as JavaScript numbers, or as bigints once they are too large for those.
+ */
+function amountFromItem(value: number | bigint | undefined): Amount {
+  return BigInt(value ?? 0);
+}
+
+function headroomFromItem(item: Record<string, any>): Headroom {
+  return {
+    debit_headroom: amountFromItem(item.debit_headroom),
+    credit_headroom: amountFromItem(item.credit_headroom),
+  };
+}
+
+export function balancesFromItem(item: Record<string, any>): Balances {
+  return {
+    debits_pending: amountFromItem(item.debits_pending),
+    debits_posted: amountFromItem(item.debits_posted),
+    credits_pending: amountFromItem(item.credits_pending),
+    credits_posted: amountFromItem(item.credits_posted),
+  };
+}
+
+/**
+ * The attributes keying the user_data and code indexes. Zero values aren't indexed, and the code index is sharded: codes
+ * are few, and a single partition key would cap the rate at which transfers with the same code can be written.
+ */
+function indexKeys(
+  kind: "transfer" | "account",
+  {
+    id,
+    user_data,
+    ledger,
+    code,
+    timestamp,
+  }: Pick<Transfer | Account, "user_data" | "ledger" | "code" | "timestamp"> & {
+    id: IdType | AccountId;
+  },
+): Record<string, string> {
+  return {
+    ...(user_data ? { user_data_key: `${kind}#${user_data}` } : {}),
+    ...(code ? { code_key: `${kind}#${ledger}#${code}#${indexShard(id)}` } : {}),
+    index_sk: `${padTimestamp(timestamp ?? 0)}#${id}`,
+  };
+}
+
+function withoutIndexKeys(item: Record<string, any>): Record<string, any> {
+  const { user_data_key, code_key, index_sk, expiry_key, expires_at, ...rest } = item;
+  return rest;
+}
+
+function pendingTransferFromItem(item: Record<string, any>): PendingTransferItem {
+  return {
+    ...transferFromItem(item),
+    ...(item.expires_at !== undefined ? { expires_at: item.expires_at } : {}),
+    ...(item.debit_shard !== undefined ? { debit_shard: item.debit_shard } : {}),
+    ...(item.credit_shard !== undefined ? { credit_shard: item.credit_shard } : {}),
+  };
+}
+
+const EXPIRY_INDEX_SHARDS = 16;
+
+/**
+ * The attributes keying the expiry index, for pending transfers with a timeout. The index is sharded like the code index,
+ * since all pending transfers would otherwise share a single partition key.
+ */
+function expiryKeys(transfer: Transfer): Record<string, string | Timestamp> {
+  if (!isFlagSet(transfer.flags, TransferFlags.PENDING) || !transfer.timeout) {
+    return {};
+  }
+  return {
+    expiry_key: `pending#${indexShard(transfer.id, EXPIRY_INDEX_SHARDS)}`,
+    expires_at: (transfer.timestamp ?? Date.now()) + transfer.timeout * 1000,
+  };
+}
+
+const CODE_INDEX_SHARDS = 16;
+
+function indexShard(id: IdType | AccountId, shards = CODE_INDEX_SHARDS): number {
+  return createHash("sha256").update(String(id)).digest().readUInt8(0) % shards;
+}
+
+async function queryByFilter(
+  client: ddc.DynamoDBDocumentClient,
+  tableName: string,
+  kind: "transfer" | "account",
+  filter: QueryFilter,
+): Promise<{ items: Record<string, any>[]; cursor?: string; consumedReadCapacity: number } & MetadataBearer> {
+  const { user_data, ledger, code, fromTimestamp, toTimestamp } = filter;
+
+  // Whatever isn't covered by the index key is filtered on
+  const filters: string[] = [];
+  const values: Record<string, any> = {
+    ":from": `${padTimestamp(fromTimestamp ?? 0)}#`,
+    ":to": toTimestamp !== undefined ? `${padTimestamp(toTimestamp)}#\uffff` : "\uffff",
+  };
+  let partitions: { name: string; index: string; attribute: string; key: string }[];
+  if (user_data) {
+    partitions = [
+      { name: "user_data", index: USER_DATA_INDEX, attribute: "user_data_key", key: `${kind}#${user_data}` },
+    ];
+    if (ledger) {
+      filters.push("ledger = :ledger");
+      values[":ledger"] = ledger;
+    }
+    if (code) {
+      filters.push("code = :code");
+      values[":code"] = code;
+    }
+  } else if (ledger && code) {
+    partitions = Array.from({ length: CODE_INDEX_SHARDS }, (_, shard) => ({
+      name: `code${shard}`,
+      index: CODE_INDEX,
+      attribute: "code_key",
+      key: `${kind}#${ledger}#${code}#${shard}`,
+    }));
+  } else {
+    throw new ValidationError("Queries need either user_data, or both ledger and code");
+  }
+
+  return mergedQuery(
+    client,
+    partitions.map(({ name, index, attribute, key }) => ({
+      name,
+      keyAttributes: [attribute, "index_sk"],
+      input: {
+        TableName: tableName,
+        IndexName: index,
+        KeyConditionExpression: `${attribute} = :key AND index_sk BETWEEN :from AND :to`,
+        ...(filters.length > 0 ? { FilterExpression: filters.join(" AND ") } : {}),
+        ExpressionAttributeValues: { ":key": key, ...values },
+      },
+    })),
+    { sortAttribute: "index_sk", ...filter },
+  );
+}
+
+/**
+ * Runs the queries side by side and merges their results in sort key order, one page at a time. Each query keeps its
+ * own position in the cursor, so the next page picks up where this one left off.
+ */
+async function mergedQuery(
+  client: ddc.DynamoDBDocumentClient,
+  queries: { name: string; keyAttributes: string[]; input: ddc.QueryCommandInput }[],
+  opts: { sortAttribute: string; direction?: SortDirection; limit?: number; cursor?: string },
+): Promise<{ items: Record<string, any>[]; cursor?: string; consumedReadCapacity: number } & MetadataBearer> {
+  const limit = opts.limit ?? 100;
+  const ascending = (opts.direction ?? SortDirection.ASC) === SortDirection.ASC;
+  const cursor = opts.cursor ? decodeQueryCursor(opts.cursor) : {};
+
+  const pages = await Promise.all(
+    queries.map(async ({ name, input }) => {
+      if (opts.cursor && cursor[name] === undefined) {
+        return { items: [], lastKey: undefined, consumedReadCapacity: 0 };
+      }
+      const result = await client.send(
+        new ddc.QueryCommand({
+          ...input,
+          ScanIndexForward: ascending,
+          Limit: limit,
+          ExclusiveStartKey: cursor[name] ?? undefined,
+          ReturnConsumedCapacity: "TOTAL",
+        }),
+      );
+      return {
+        items: result.Items ?? [],
+        lastKey: result.LastEvaluatedKey,
+        consumedReadCapacity: result.ConsumedCapacity?.CapacityUnits ?? 0,
+      };
+    }),
+  );
+
+  // Merge until the page is full, or until a query runs out of fetched items while there are more to read – its next
+  // item could come before anything left in the others.
+  const before = (a: Record<string, any>, b: Record<string, any>) => {
+    const [x, y] = [a[opts.sortAttribute], b[opts.sortAttribute]];
+    const order = x !== y ? (x < y ? -1 : 1) : a.pk < b.pk ? -1 : 1;
+    return ascending ? order < 0 : order > 0;
+  };
+  const taken = pages.map(() => 0);
+  const items: Record<string, any>[] = [];
+  while (items.length < limit) {
+    const heads = pages.map((page, i) => page.items[taken[i]]);
+    if (pages.some((page, i) => heads[i] === undefined && page.lastKey !== undefined)) {
+      break;
+    }
+    let next = -1;
+    heads.forEach((head, i) => {
+      if (head !== undefined && (next < 0 || before(head, heads[next]))) {
+        next = i;
+      }
+    });
+    if (next < 0) {
+      break;
+    }
+    items.push(heads[next]);
+    taken[next] += 1;
+  }
+
+  const nextCursor: QueryCursor = {};
+  queries.forEach(({ name, keyAttributes }, i) => {
+    const page = pages[i];
+    if (taken[i] === page.items.length) {
+      // Either read to the end, or continuing from where the query itself left off
+      if (page.lastKey !== undefined) {
+        nextCursor[name] = page.lastKey;
+      }
+    } else if (taken[i] > 0) {
+      const last = page.items[taken[i] - 1];
+      nextCursor[name] = Object.fromEntries(
+        ["pk", "sk", ...keyAttributes].map((attribute) => [attribute, last[attribute]]),
+      );
+    } else {
+      nextCursor[name] = cursor[name] ?? null;
+    }
+  });
+
+  return {
+    items,
+    cursor: Object.keys(nextCursor).length > 0 ? encodeQueryCursor(nextCursor) : undefined,
+    consumedReadCapacity: pages.reduce((acc, page) => acc + page.consumedReadCapacity, 0),
+    $metadata: {},
+  };
+}
+
+/**
+ * Positions in each of the merged queries. A null position is the start of the query; a missing one means it has been
+ * read to the end.
+ */
+type QueryCursor = Record<string, Record<string, any> | null>;
+
+function encodeQueryCursor(cursor: QueryCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeQueryCursor(cursor: string): QueryCursor {
+  try {
+    return JSON.parse(Buffer.from(cursor, "base64url").toString());
+  } catch (err) {
+    throw new ValidationError(`Invalid cursor: ${cursor}`);
+  }
+}
+
+async function getTransferItems(
+  client: ddc.DynamoDBDocumentClient,
+  tableName: string,
+  ids: IdType[],
+  consistentRead = true,
+): Promise<{ transfers: Map<IdType, PendingTransferItem>; consumedReadCapacity: number }> {
+  const { items, consumedReadCapacity } = await batchGetItems(
+    client,
+    tableName,
+    Array.from(new Set(ids)).map((id) => ({ pk: `transfer#${id}`, sk: `transfer#${id}` })),
+    consistentRead,
+  );
+  const transfers: Map<IdType, PendingTransferItem> = new Map();
+  for (const item of items) {
+    const transfer = pendingTransferFromItem(item);
+    transfers.set(transfer.id, transfer);
+  }
+  return { transfers, consumedReadCapacity };
+}
+
+async function batchGetItems(
+  client: ddc.DynamoDBDocumentClient,
+  tableName: string,
+  keys: Record<string, any>[],
+  consistentRead = true,
+): Promise<{ items: Record<string, any>[]; consumedReadCapacity: number }> {
+  const items: Record<string, any>[] = [];
+  let consumedReadCapacity = 0;
+
+  // BatchGetItem accepts at most 100 keys per request and may return some of them as unprocessed under load. Those are
+  // asked for again with exponential backoff and jitter, as AWS recommends, giving the table time to catch up.
+  for (let i = 0; i < keys.length; i += 100) {
+    let pending: Record<string, any>[] | undefined = keys.slice(i, i + 100);
+    for (let retries = 0; pending && pending.length > 0; retries++) {
+      if (retries > MAX_UNPROCESSED_RETRIES) {
+        throw new ThrottledError(
+          `${pending.length} keys were still unprocessed after ${MAX_UNPROCESSED_RETRIES} retries`,
+        );
+      }
+      if (retries > 0) {
+        await setTimeout(Math.random() * Math.min(50 * 2 ** retries, 5_000));
+      }
+      const result: ddc.BatchGetCommandOutput = await client.send(
+        new ddc.BatchGetCommand({
+          RequestItems: {
+            [tableName]: { Keys: pending, ConsistentRead: consistentRead },
+          },
+          ReturnConsumedCapacity: "TOTAL",
+        }),
+      );
+      items.push(...(result.Responses?.[tableName] ?? []));
+      consumedReadCapacity += (result.ConsumedCapacity ?? []).reduce((acc, item) => acc + (item.CapacityUnits ?? 0), 0);
+      pending = result.UnprocessedKeys?.[tableName]?.Keys;
+    }
+  }
+
+  return { items, consumedReadCapacity };
 }
 
 type IdType = string;
@@ -250,8 +3163,6 @@ type ExternalId = number;
 type Timeout = number;
 type LedgerId = number;
 type Reason = number;
-type TransferFlags = number;
-type Amount = number;
+type Amount = bigint;
 type Timestamp = number;
 type AccountType = number;
-type AccountFlags = any;
@@ -0,0 +1,111 @@
+import * as dynamodb from "@aws-sdk/client-dynamodb";
+import * as ddc from "@aws-sdk/lib-dynamodb";
+import { mockClient } from "aws-sdk-client-mock";
+import * as matchers from "jest-extended";
+import { ApiRequest, handleApiRequest } from "../lib/api.js";
+import { InMemoryLedgerStore } from "../lib/memory-store.js";
+import { DynamoDbLedgerStore, LedgerStore } from "../lib/store.js";
+import { AccountFlags, TransferResult } from "../lib/transactions.js";
+
+expect.extend(matchers);
+
+const request = (method: string, path: string, body?: unknown, query: Record<string, string> = {}): ApiRequest => ({
+  method,
+  path,
+  query,
+  ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+});
+
+const call = async (store: LedgerStore, req: ApiRequest) => {
+  const response = await handleApiRequest(store, req);
+  return { status: response.statusCode, body: JSON.parse(response.body) };
+};
+
+const accounts = [
+  { id: 1, ledger: 700, flags: AccountFlags.DEBITS_MUST_NOT_EXCEED_CREDITS, credits_posted: "100" },
+  { id: 2, ledger: 700 },
+];
+
+describe("HTTP API", () => {
+  test("accounts and transfers are created and read back, with amounts as decimal strings", async () => {
+    const store = new InMemoryLedgerStore();
+
+    expect(await call(store, request("POST", "/accounts", { accounts }))).toEqual({
+      status: 201,
+      body: { ids: [1, 2] },
+    });
+    const created = await call(
+      store,
+      request("POST", "/transfers", {
+        transfers: [
+          { id: "a", debit_account_id: 1, credit_account_id: 2, ledger: 700, amount: "30" },
+          { id: "b", debit_account_id: 1, credit_account_id: 2, ledger: 700, amount: 80 },
+          { id: "c", debit_account_id: 1, credit_account_id: 2, ledger: 700, amount: "1", timestamp: 1 },
+        ],
+      }),
+    );
+
+    expect(created.status).toEqual(200);
+    expect(created.body).toMatchObject({
+      overallResult: TransferResult.INSUFFICIENT_FUNDS,
+      results: [TransferResult.OK, TransferResult.INSUFFICIENT_FUNDS, TransferResult.TIMESTAMP_MUST_NOT_BE_SET],
+    });
+    expect(created.body.timestamps[0]).toBeNumber();
+    expect(await call(store, request("GET", "/accounts/1"))).toEqual({
+      status: 200,
+      body: expect.objectContaining({ id: 1, debits_posted: "30", credits_posted: "100" }),
+    });
+    const { body } = await call(store, request("GET", "/transfers", undefined, { ids: "a,b" }));
+    expect(body.transfers).toEqual([expect.objectContaining({ id: "a", amount: "30", timeout: 0 })]);
+    expect(await call(store, request("GET", "/transfers/b"))).toMatchObject({ status: 404 });
+  });
+
+  test("invalid requests are rejected with the field at fault", async () => {
+    const store = new InMemoryLedgerStore();
+    await call(store, request("POST", "/accounts", { accounts }));
+
+    expect(await call(store, { method: "POST", path: "/transfers", query: {}, body: "{" })).toMatchObject({
+      status: 400,
+      body: { error: "ValidationError", retryable: false },
+    });
+    expect(
+      await call(store, request("POST", "/transfers", { transfers: [{ id: "a", debit_account_id: 1, ledger: 700 }] })),
+    ).toMatchObject({ status: 400, body: { message: "transfers[0].credit_account_id is required" } });
+    expect(
+      await call(store, request("POST", "/accounts", { accounts: [{ id: 3, ledger: 700, balance: "1" }] })),
+    ).toMatchObject({ status: 400, body: { message: "accounts[0] has unknown fields: balance" } });
+    expect(await call(store, request("GET", "/accounts/x"))).toMatchObject({ status: 400 });
+    expect(await call(store, request("GET", "/transfers/%E0%A4%A"))).toMatchObject({
+      status: 400,
+      body: { error: "ValidationError" },
+    });
+    const tooMany = Array.from({ length: 101 }, (_, i) => ({ id: 100 + i, ledger: 700 }));
+    expect(await call(store, request("POST", "/accounts", { accounts: tooMany }))).toMatchObject({
+      status: 400,
+      body: { message: "accounts must be an array of 1 to 100 items" },
+    });
+    expect(await call(store, request("POST", "/accounts", { accounts: [accounts[1]] }))).toMatchObject({
+      status: 409,
+      body: { error: "AccountExistsError", accountIds: [2] },
+    });
+    expect(await call(store, request("DELETE", "/accounts/1"))).toMatchObject({ status: 405 });
+    expect(await call(store, request("GET", "/ledgers"))).toMatchObject({ status: 404 });
+  });
+
+  test("retryable ledger errors get a status to back off on", async () => {
+    const ddbMock = mockClient(ddc.DynamoDBDocumentClient);
+    ddbMock
+      .on(ddc.GetCommand)
+      .rejects(new dynamodb.ProvisionedThroughputExceededException({ $metadata: {}, message: "Rate exceeded" }));
+    const store = new DynamoDbLedgerStore(
+      ddc.DynamoDBDocumentClient.from(new dynamodb.DynamoDBClient({ region: "localhost" })),
+      "transactions",
+    );
+
+    expect(await call(store, request("GET", "/accounts/1"))).toEqual({
+      status: 429,
+      body: { error: "ThrottledError", message: "Rate exceeded", retryable: true },
+    });
+    ddbMock.restore();
+  });
+});
@@ -0,0 +1,80 @@
+import * as dynamodb from "@aws-sdk/client-dynamodb";
+import * as ddc from "@aws-sdk/lib-dynamodb";
+import { mockClient } from "aws-sdk-client-mock";
+import "aws-sdk-client-mock-jest";
+import * as matchers from "jest-extended";
+import { TransferCommitter } from "../lib/committer.js";
+import { TransferFlags, TransferResult } from "../lib/transactions.js";
+
+expect.extend(matchers);
+
+const ddbMock = mockClient(ddc.DynamoDBDocumentClient);
+
+const dynamoDbDocumentClient = ddc.DynamoDBDocumentClient.from(new dynamodb.DynamoDBClient());
+
+const TABLE_NAME = "transactions";
+
+const transfer = (id: string, debit: number, credit: number) => ({
+  id,
+  debit_account_id: debit,
+  credit_account_id: credit,
+  ledger: 700,
+  amount: 10n,
+  timeout: 0,
+});
+
+describe("transfer committer", () => {
+  beforeEach(() => {
+    ddbMock.reset();
+    ddbMock.on(ddc.TransactWriteCommand).resolves({ $metadata: {}, ConsumedCapacity: [] });
+  });
+
+  test("transfers submitted within the window are committed together", async () => {
+    const committer = new TransferCommitter(dynamoDbDocumentClient, TABLE_NAME, { maxDelayMs: 10 });
+
+    const results = await Promise.all([
+      committer.submit(transfer("1", 1, 2)),
+      committer.submit(transfer("2", 1, 3)),
+      committer.submit(transfer("3", 4, 2)),
+    ]);
+
+    expect(results).toEqual([TransferResult.OK, TransferResult.OK, TransferResult.OK]);
+    expect(ddbMock).toHaveReceivedCommandTimes(ddc.TransactWriteCommand, 1);
+    // Three transfers, with their updates to four accounts coalesced, and the clock
+    expect(ddbMock.commandCalls(ddc.TransactWriteCommand)[0].args[0].input.TransactItems).toHaveLength(8);
+  });
+
+  test("full batches are committed without waiting, and resubmitted ids go into the next batch", async () => {
+    const committer = new TransferCommitter(dynamoDbDocumentClient, TABLE_NAME, {
+      maxDelayMs: 60_000,
+      maxBatchSize: 2,
+    });
+
+    const results = Promise.all([
+      committer.submit(transfer("1", 1, 2)),
+      committer.submit(transfer("1", 1, 2)),
+      committer.submit(transfer("2", 3, 4)),
+    ]);
+    await committer.flush();
+
+    expect(await results).toEqual([TransferResult.OK, TransferResult.OK, TransferResult.OK]);
+    const batches = ddbMock
+      .commandCalls(ddc.TransactWriteCommand)
+      .map(({ args }) => args[0].input.TransactItems!.filter((item) => item.Put).map((item) => item.Put!.Item!.id));
+    expect(batches).toEqual([["1"], ["1", "2"]]);
+  });
+
+  test("linked transfers are rejected and batch errors reach every caller", async () => {
+    ddbMock.on(ddc.TransactWriteCommand).rejects(new Error("Service unavailable"));
+    const committer = new TransferCommitter(dynamoDbDocumentClient, TABLE_NAME, { maxDelayMs: 1 });
+
+    expect(await committer.submit({ ...transfer("1", 1, 2), flags: TransferFlags.LINKED })).toEqual(
+      TransferResult.LINKED_EVENT_CHAIN_OPEN,
+    );
+    const results = await Promise.allSettled([
+      committer.submit(transfer("2", 1, 2)),
+      committer.submit(transfer("3", 3, 4)),
+    ]);
+    expect(results.map((r) => r.status)).toEqual(["rejected", "rejected"]);
+  });
+});
@@ -0,0 +1,99 @@
+import * as sqs from "@aws-sdk/client-sqs";
+import type { DynamoDBStreamEvent } from "aws-lambda";
+import { mockClient } from "aws-sdk-client-mock";
+import "aws-sdk-client-mock-jest";
+import { readFileSync } from "fs";
+import * as matchers from "jest-extended";
+import * as path from "path";
+import {
+  LedgerEventType,
+  decodeLedgerEvent,
+  encodeLedgerEvent,
+  ledgerEventFromRecord,
+  publishLedgerEvents,
+} from "../lib/events.js";
+
+expect.extend(matchers);
+
+const sqsMock = mockClient(sqs.SQSClient);
+
+const sqsClient = new sqs.SQSClient({});
+
+const QUEUE_URL = "https://sqs.us-east-1.amazonaws.com/123456789012/LedgerEvents.fifo";
+
+// One transaction's worth of changes as recorded on the table's stream, along with a freeze and a new account
+const { Records: records }: DynamoDBStreamEvent = JSON.parse(
+  readFileSync(path.join(__dirname, "stream-records.json"), "utf8"),
+);
+
+const zero = { debits_pending: 0n, debits_posted: 0n, credits_pending: 0n, credits_posted: 0n };
+
+describe("ledger events", () => {
+  beforeEach(() => {
+    sqsMock.reset();
+  });
+
+  test("new transfers and balance changes are events; snapshots and flag changes aren't", () => {
+    const events = records.map(ledgerEventFromRecord);
+
+    expect(events).toEqual([
+      {
+        id: "00000000000000000000000000000001",
+        recorded_at: 1729339200000,
+        type: LedgerEventType.TRANSFER_COMMITTED,
+        transfer: {
+          id: "1",
+          debit_account_id: 1,
+          credit_account_id: 2,
+          ledger: 700,
+          amount: 10n,
+          timeout: 0,
+          timestamp: 1729339200000,
+        },
+      },
+      expect.objectContaining({
+        type: LedgerEventType.BALANCE_CHANGED,
+        account_id: 1,
+        ledger: 700,
+        before: { ...zero, credits_posted: 100n },
+        after: { ...zero, debits_posted: 10n, credits_posted: 100n },
+      }),
+      undefined,
+      expect.objectContaining({ account_id: 2, shard: 1, after: { ...zero, credits_posted: 10n } }),
+      undefined,
+      // Accounts opened with balances change from zero
+      expect.objectContaining({ account_id: 3, before: zero, after: { ...zero, credits_posted: 2n ** 100n } }),
+    ]);
+  });
+
+  test("events are sent in order, grouped by item and deduplicated by id", async () => {
+    sqsMock.on(sqs.SendMessageBatchCommand).resolves({ Successful: [], Failed: [] });
+
+    const result = await publishLedgerEvents(sqsClient, QUEUE_URL, records);
+
+    expect(result).toEqual({ published: 4 });
+    const entries = sqsMock.commandCalls(sqs.SendMessageBatchCommand)[0].args[0].input.Entries!;
+    expect(entries.map((e) => [e.MessageGroupId, e.MessageDeduplicationId])).toEqual([
+      ["transfer#1", "00000000000000000000000000000001"],
+      ["account#1", "00000000000000000000000000000002"],
+      ["account#2#shard#1", "00000000000000000000000000000004"],
+      ["account#3", "00000000000000000000000000000007"],
+    ]);
+    expect(decodeLedgerEvent(entries[3].MessageBody!)).toEqual(ledgerEventFromRecord(records[5]));
+  });
+
+  test("a failed send reports the record to process again from", async () => {
+    sqsMock.on(sqs.SendMessageBatchCommand).resolves({
+      Successful: [{ Id: "0", MessageId: "a", MD5OfMessageBody: "" }],
+      Failed: [
+        { Id: "3", Code: "InternalError", SenderFault: false },
+        { Id: "1", Code: "InternalError", SenderFault: false },
+      ],
+    });
+
+    const result = await publishLedgerEvents(sqsClient, QUEUE_URL, records);
+
+    expect(result).toEqual({ published: 1, failedSequenceNumber: records[1].dynamodb!.SequenceNumber });
+    expect(encodeLedgerEvent(ledgerEventFromRecord(records[0])!)).toContain('"amount":"10"');
+  });
+});
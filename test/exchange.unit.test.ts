@@ -0,0 +1,104 @@
+import * as dynamodb from "@aws-sdk/client-dynamodb";
+import * as ddc from "@aws-sdk/lib-dynamodb";
+import { mockClient } from "aws-sdk-client-mock";
+import "aws-sdk-client-mock-jest";
+import { marshall } from "@aws-sdk/util-dynamodb";
+import * as matchers from "jest-extended";
+import { CurrencyExchange, createCurrencyExchange, currencyExchangeTransfers } from "../lib/exchange.js";
+import { AccountFlags, TransferFlags, TransferResult } from "../lib/transactions.js";
+
+expect.extend(matchers);
+
+const ddbMock = mockClient(ddc.DynamoDBDocumentClient);
+
+const dynamoDbDocumentClient = ddc.DynamoDBDocumentClient.from(new dynamodb.DynamoDBClient());
+
+const TABLE_NAME = "transactions";
+
+const exchange: CurrencyExchange = {
+  id: "fx1",
+  debit_account_id: 1,
+  credit_account_id: 2,
+  source_ledger: 700,
+  destination_ledger: 800,
+  source_liquidity_account_id: 70,
+  destination_liquidity_account_id: 80,
+  amount: 1_000n,
+  rate: "0.9214",
+};
+
+describe("currency exchange", () => {
+  beforeEach(() => {
+    ddbMock.reset();
+  });
+
+  test("is a linked pair of transfers through the liquidity accounts, recording the rate", () => {
+    const [source, destination] = currencyExchangeTransfers({ ...exchange, amount: 1_999n });
+
+    expect(source).toEqual({
+      id: "fx1.source",
+      debit_account_id: 1,
+      credit_account_id: 70,
+      ledger: 700,
+      amount: 1_999n,
+      timeout: 0,
+      flags: TransferFlags.LINKED,
+      exchange_id: "fx1",
+      exchange_rate: "0.9214",
+    });
+    // 1999 * 0.9214 = 1841.8786, rounded down
+    expect(destination).toEqual({
+      id: "fx1.destination",
+      debit_account_id: 80,
+      credit_account_id: 2,
+      ledger: 800,
+      amount: 1_841n,
+      timeout: 0,
+      exchange_id: "fx1",
+      exchange_rate: "0.9214",
+    });
+  });
+
+  test("rejects exchanges within a ledger and rates that aren't positive decimals", () => {
+    expect(() => currencyExchangeTransfers({ ...exchange, destination_ledger: 700 })).toThrow();
+    for (const rate of ["0", "-1", "1e3", "0.", ""]) {
+      expect(() => currencyExchangeTransfers({ ...exchange, rate })).toThrow();
+    }
+  });
+
+  test("fails as a whole when the destination liquidity account runs out of funds", async () => {
+    ddbMock
+      .on(ddc.TransactWriteCommand)
+      .rejectsOnce(
+        new dynamodb.TransactionCanceledException({
+          $metadata: {},
+          message: "Transaction cancelled, please refer cancellation reasons for specific reasons",
+          CancellationReasons: [
+            { Code: "None" },
+            { Code: "None" },
+            { Code: "None" },
+            { Code: "None" },
+            {
+              Code: "ConditionalCheckFailed",
+              Item: marshall({
+                pk: "account#80",
+                sk: "account#80",
+                ledger: 800,
+                flags: new Set([AccountFlags[AccountFlags.DEBITS_MUST_NOT_EXCEED_CREDITS]]),
+                debit_headroom: 500,
+              }),
+            },
+            { Code: "None" },
+            { Code: "None" },
+          ],
+        }),
+      )
+      .resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+    const result = await createCurrencyExchange(dynamoDbDocumentClient, TABLE_NAME, exchange);
+
+    expect(result.results).toEqual([TransferResult.LINKED_EVENT_FAILED, TransferResult.INSUFFICIENT_FUNDS]);
+    expect(result.overallResult).toEqual(TransferResult.INSUFFICIENT_FUNDS);
+    expect(ddbMock).toHaveReceivedCommandTimes(ddc.TransactWriteCommand, 1);
+  });
+});
@@ -0,0 +1,153 @@
+import { AccountExistsError, ValidationError } from "../lib/errors.js";
+import * as matchers from "jest-extended";
+import { InMemoryLedgerStore } from "../lib/memory-store.js";
+import { AccountFlags, PendingStatus, Transfer, TransferFlags, TransferResult } from "../lib/transactions.js";
+
+expect.extend(matchers);
+
+const account = (id: number, flags?: AccountFlags) => ({
+  id,
+  ledger: 700,
+  debits_pending: 0n,
+  debits_posted: 0n,
+  credits_pending: 0n,
+  credits_posted: 0n,
+  ...(flags !== undefined ? { flags } : {}),
+});
+
+const transfer = (id: string, debit: number, credit: number, amount: bigint, flags?: TransferFlags): Transfer => ({
+  id,
+  debit_account_id: debit,
+  credit_account_id: credit,
+  ledger: 700,
+  amount,
+  timeout: 0,
+  ...(flags !== undefined ? { flags } : {}),
+});
+
+describe("in-memory ledger store", () => {
+  test("accounts can only be created once", async () => {
+    const store = new InMemoryLedgerStore();
+    await store.createAccounts([account(1), account(2)]);
+
+    await expect(store.createAccounts([account(3), account(2)])).rejects.toThrow(AccountExistsError);
+    await expect(store.createAccounts([account(3), account(3)])).rejects.toThrow(ValidationError);
+    expect(await store.getAccount(3)).toBeUndefined();
+    expect((await store.getAccounts([1, 2, 3])).accounts?.map(({ id }) => id)).toEqual([1, 2]);
+  });
+
+  test("limits fail the whole linked chain, leaving the rest of the batch to commit", async () => {
+    const store = new InMemoryLedgerStore();
+    await store.createAccounts([account(1, AccountFlags.DEBITS_MUST_NOT_EXCEED_CREDITS), account(2)]);
+
+    const result = await store.createTransfers([
+      transfer("1", 2, 1, 100n),
+      transfer("2", 1, 2, 60n, TransferFlags.LINKED),
+      transfer("3", 1, 2, 60n),
+      transfer("4", 1, 2, 40n),
+    ]);
+
+    expect(result.results).toEqual([
+      TransferResult.OK,
+      TransferResult.LINKED_EVENT_FAILED,
+      TransferResult.INSUFFICIENT_FUNDS,
+      TransferResult.OK,
+    ]);
+    expect(result.overallResult).toEqual(TransferResult.INSUFFICIENT_FUNDS);
+    // Both accounts are written once for the batch, along with the two transfers
+    expect(result.itemsWritten).toEqual(4);
+    expect(await store.getAccount(1)).toMatchObject({ debits_posted: 40n, credits_posted: 100n });
+    expect(await store.getTransfer("2")).toBeUndefined();
+  });
+
+  test("a transfer repeated within a linked chain fails along with its chain", async () => {
+    const store = new InMemoryLedgerStore();
+    await store.createAccounts([account(1, AccountFlags.DEBITS_MUST_NOT_EXCEED_CREDITS), account(2)]);
+
+    const result = await store.createTransfers([
+      transfer("1", 2, 1, 100n, TransferFlags.LINKED),
+      transfer("1", 2, 1, 100n, TransferFlags.LINKED),
+      transfer("2", 1, 2, 200n),
+      transfer("3", 2, 1, 10n, TransferFlags.LINKED),
+      transfer("3", 2, 1, 10n, TransferFlags.LINKED),
+      transfer("4", 2, 1, 10n),
+    ]);
+
+    expect(result.results).toEqual([
+      TransferResult.LINKED_EVENT_FAILED,
+      TransferResult.LINKED_EVENT_FAILED,
+      TransferResult.INSUFFICIENT_FUNDS,
+      TransferResult.OK,
+      TransferResult.EXISTS,
+      TransferResult.OK,
+    ]);
+  });
+
+  test("limits apply to each transfer in batch order, so a later credit doesn't cover an earlier debit", async () => {
+    const store = new InMemoryLedgerStore();
+    await store.createAccounts([account(1, AccountFlags.DEBITS_MUST_NOT_EXCEED_CREDITS), account(2)]);
+
+    const result = await store.createTransfers([transfer("1", 1, 2, 100n), transfer("2", 2, 1, 100n)]);
+
+    expect(result.results).toEqual([TransferResult.INSUFFICIENT_FUNDS, TransferResult.OK]);
+    expect(await store.getAccount(1)).toMatchObject({ debits_posted: 0n, credits_posted: 100n });
+  });
+
+  test("pending transfers can be posted once, and resubmitted transfers are recognized", async () => {
+    const store = new InMemoryLedgerStore();
+    await store.createAccounts([account(1), account(2)]);
+    const post = { ...transfer("2", 0, 0, 30n, TransferFlags.POST_PENDING_TRANSFER), ledger: 0, pending_id: "1" };
+
+    await store.createTransfers([transfer("1", 1, 2, 50n, TransferFlags.PENDING)]);
+    const result = await store.createTransfers([
+      post,
+      { ...transfer("3", 0, 0, 0n, TransferFlags.VOID_PENDING_TRANSFER), ledger: 0, pending_id: "1" },
+      transfer("1", 1, 2, 51n, TransferFlags.PENDING),
+    ]);
+
+    expect(result.results).toEqual([
+      TransferResult.OK,
+      TransferResult.PENDING_TRANSFER_ALREADY_POSTED,
+      TransferResult.EXISTS_WITH_DIFFERENT_FIELDS,
+    ]);
+    expect((await store.createTransfers([post])).results).toEqual([TransferResult.EXISTS]);
+    expect(await store.getAccount(1)).toMatchObject({ debits_pending: 0n, debits_posted: 30n });
+    expect(await store.getTransfer("1")).toMatchObject({ pending_status: PendingStatus.POSTED });
+  });
+
+  test("strict accounts must exist on the transfer's ledger and be open", async () => {
+    const store = new InMemoryLedgerStore();
+    await store.createAccounts([account(1), account(2, AccountFlags.CLOSED), { ...account(3), ledger: 800 }]);
+
+    const result = await store.createTransfers(
+      [transfer("1", 1, 4, 10n), transfer("2", 1, 3, 10n), transfer("3", 1, 2, 10n), transfer("4", 1, 1, 10n)],
+      undefined,
+      { strictAccounts: true },
+    );
+
+    expect(result.results).toEqual([
+      TransferResult.ACCOUNT_NOT_FOUND,
+      TransferResult.LEDGER_MISMATCH,
+      TransferResult.CREDIT_ACCOUNT_CLOSED,
+      TransferResult.ACCOUNTS_MUST_BE_DIFFERENT,
+    ]);
+    expect(result.itemsWritten).toEqual(0);
+  });
+
+  test("balancing transfers are clamped to the headroom left by the transfers before them", async () => {
+    const store = new InMemoryLedgerStore();
+    await store.createAccounts([account(1, AccountFlags.DEBITS_MUST_NOT_EXCEED_CREDITS), account(2)]);
+
+    const result = await store.createTransfers([
+      transfer("1", 2, 1, 100n),
+      transfer("2", 1, 2, 70n),
+      transfer("3", 1, 2, 1_000n, TransferFlags.BALANCING_DEBIT),
+      transfer("4", 1, 2, 1_000n, TransferFlags.BALANCING_DEBIT),
+    ]);
+
+    expect(result.results).toEqual([TransferResult.OK, TransferResult.OK, TransferResult.OK, TransferResult.OK]);
+    expect(result.balancedAmounts).toEqual([undefined, undefined, 30n, 0n]);
+    expect(await store.getTransfer("3")).toMatchObject({ amount: 30n });
+    expect(await store.getAccount(1)).toMatchObject({ debits_posted: 100n, credits_posted: 100n });
+  });
+});
@@ -0,0 +1,90 @@
+import * as dynamodb from "@aws-sdk/client-dynamodb";
+import * as ddc from "@aws-sdk/lib-dynamodb";
+import { mockClient } from "aws-sdk-client-mock";
+import "aws-sdk-client-mock-jest";
+import * as matchers from "jest-extended";
+import { reconcile } from "../lib/reconciliation.js";
+import { PendingStatus, TransferFlags } from "../lib/transactions.js";
+
+expect.extend(matchers);
+
+const ddbMock = mockClient(ddc.DynamoDBDocumentClient);
+
+const dynamoDbDocumentClient = ddc.DynamoDBDocumentClient.from(new dynamodb.DynamoDBClient());
+
+const TABLE_NAME = "transactions";
+
+const account = (id: number, balances: Record<string, number>, extra: Record<string, any> = {}) => ({
+  pk: `account#${id}`,
+  sk: `account#${id}`,
+  ledger: 700,
+  debits_pending: 0,
+  debits_posted: 0,
+  credits_pending: 0,
+  credits_posted: 0,
+  ...balances,
+  ...extra,
+});
+const transfer = (id: string, debit: number, credit: number, amount: number, extra: Record<string, any> = {}) => ({
+  pk: `transfer#${id}`,
+  sk: `transfer#${id}`,
+  id,
+  ledger: 700,
+  debit_account_id: debit,
+  credit_account_id: credit,
+  amount,
+  timeout: 0,
+  ...extra,
+});
+
+describe("reconciliation", () => {
+  beforeEach(() => {
+    ddbMock.reset();
+  });
+
+  test("reports accounts whose balances don't add up, with the transfers behind them", async () => {
+    ddbMock
+      .on(ddc.ScanCommand, { Segment: 0 })
+      .resolvesOnce({
+        $metadata: {},
+        Items: [
+          account(1, { debits_posted: 30, debits_pending: 5 }),
+          account(2, { credits_posted: 0 }),
+          // Balance snapshots aren't accounts
+          { pk: "account#2", sk: "balance#00000000000000000001#a", credits_posted: 10 },
+        ],
+        LastEvaluatedKey: { pk: "account#2", sk: "balance#00000000000000000001#a" },
+      })
+      .resolves({
+        $metadata: {},
+        Items: [account(3, { credits_posted: 25, credits_pending: 5 }, { opening_balances: { credits_posted: 5 } })],
+      });
+    ddbMock.on(ddc.ScanCommand, { Segment: 1 }).resolves({
+      $metadata: {},
+      Items: [
+        transfer("a", 1, 2, 10),
+        transfer("b", 1, 3, 20),
+        transfer("c", 1, 3, 5, { flags: TransferFlags.PENDING, pending_status: PendingStatus.PENDING }),
+        transfer("d", 1, 2, 7, { flags: TransferFlags.PENDING, pending_status: PendingStatus.VOIDED }),
+        transfer("e", 1, 2, 7, { flags: TransferFlags.VOID_PENDING_TRANSFER, pending_id: "d" }),
+      ],
+    });
+
+    const report = await reconcile(dynamoDbDocumentClient, TABLE_NAME, { segments: 2 });
+
+    expect(report.accountsChecked).toEqual(3);
+    expect(report.transfersScanned).toEqual(5);
+    // Account 2 is missing the credit of transfer "a"; accounts 1 and 3 add up
+    expect(report.drift).toEqual([
+      {
+        account_id: 2,
+        expected: { debits_pending: 0n, debits_posted: 0n, credits_pending: 0n, credits_posted: 10n },
+        actual: { debits_pending: 0n, debits_posted: 0n, credits_pending: 0n, credits_posted: 0n },
+        difference: { debits_pending: 0n, debits_posted: 0n, credits_pending: 0n, credits_posted: -10n },
+        transfer_ids: ["a"],
+      },
+    ]);
+    // The second scan only happens because of the drift
+    expect(ddbMock).toHaveReceivedCommandTimes(ddc.ScanCommand, 5);
+  });
+});
@@ -3,13 +3,38 @@ import * as ddc from "@aws-sdk/lib-dynamodb";
 import * as matchers from "jest-extended";
 import {
   Account,
+  AccountFlags,
+  CODE_INDEX,
+  CREDIT_ACCOUNT_TRANSFERS_INDEX,
+  DEBIT_ACCOUNT_TRANSFERS_INDEX,
+  EXPIRY_INDEX,
+  MAX_AMOUNT,
+  PendingStatus,
+  SortDirection,
   Transfer,
+  TransferFlags,
   TransferResult,
+  USER_DATA_INDEX,
+  closeAccount,
   createAccount,
+  createAccountsBatch,
   createTransfersBatch,
+  expirePendingTransfers,
+  freezeAccount,
   getAccount,
+  getAccountBalances,
+  getAccountTransfers,
   getAccountsBatch,
+  getTransfer,
+  lookupTransfers,
+  queryAccounts,
+  queryTransfers,
+  unfreezeAccount,
 } from "../lib/transactions.js";
+import { createCurrencyExchange } from "../lib/exchange.js";
+import { InMemoryLedgerStore } from "../lib/memory-store.js";
+import { reconcile } from "../lib/reconciliation.js";
+import { DynamoDbLedgerStore, LedgerStore } from "../lib/store.js";
 
 expect.extend(matchers);
 
@@ -53,6 +78,56 @@ describe("transactions integration test", () => {
         AttributeDefinitions: [
           { AttributeName: "pk", AttributeType: "S" },
           { AttributeName: "sk", AttributeType: "S" },
+          { AttributeName: "debit_account_id", AttributeType: "N" },
+          { AttributeName: "credit_account_id", AttributeType: "N" },
+          { AttributeName: "timestamp", AttributeType: "N" },
+          { AttributeName: "user_data_key", AttributeType: "S" },
+          { AttributeName: "code_key", AttributeType: "S" },
+          { AttributeName: "index_sk", AttributeType: "S" },
+          { AttributeName: "expiry_key", AttributeType: "S" },
+          { AttributeName: "expires_at", AttributeType: "N" },
+        ],
+        GlobalSecondaryIndexes: [
+          {
+            IndexName: DEBIT_ACCOUNT_TRANSFERS_INDEX,
+            KeySchema: [
+              { AttributeName: "debit_account_id", KeyType: "HASH" },
+              { AttributeName: "timestamp", KeyType: "RANGE" },
+            ],
+            Projection: { ProjectionType: "ALL" },
+          },
+          {
+            IndexName: CREDIT_ACCOUNT_TRANSFERS_INDEX,
+            KeySchema: [
+              { AttributeName: "credit_account_id", KeyType: "HASH" },
+              { AttributeName: "timestamp", KeyType: "RANGE" },
+            ],
+            Projection: { ProjectionType: "ALL" },
+          },
+          {
+            IndexName: USER_DATA_INDEX,
+            KeySchema: [
+              { AttributeName: "user_data_key", KeyType: "HASH" },
+              { AttributeName: "index_sk", KeyType: "RANGE" },
+            ],
+            Projection: { ProjectionType: "ALL" },
+          },
+          {
+            IndexName: CODE_INDEX,
+            KeySchema: [
+              { AttributeName: "code_key", KeyType: "HASH" },
+              { AttributeName: "index_sk", KeyType: "RANGE" },
+            ],
+            Projection: { ProjectionType: "ALL" },
+          },
+          {
+            IndexName: EXPIRY_INDEX,
+            KeySchema: [
+              { AttributeName: "expiry_key", KeyType: "HASH" },
+              { AttributeName: "expires_at", KeyType: "RANGE" },
+            ],
+            Projection: { ProjectionType: "ALL" },
+          },
         ],
         BillingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
       }),
@@ -69,26 +144,26 @@ describe("transactions integration test", () => {
         createAccount(documentClient, TABLE_NAME, {
           id: 1,
           ledger: 700,
-          debits_pending: 0,
-          debits_posted: 0,
-          credits_pending: 0,
-          credits_posted: 0,
+          debits_pending: 0n,
+          debits_posted: 0n,
+          credits_pending: 0n,
+          credits_posted: 0n,
         }),
         createAccount(documentClient, TABLE_NAME, {
           id: 2,
           ledger: 700,
-          debits_pending: 0,
-          debits_posted: 0,
-          credits_pending: 0,
-          credits_posted: 0,
+          debits_pending: 0n,
+          debits_posted: 0n,
+          credits_pending: 0n,
+          credits_posted: 0n,
         }),
         createAccount(documentClient, TABLE_NAME, {
           id: 3,
           ledger: 700,
-          debits_pending: 0,
-          debits_posted: 0,
-          credits_pending: 0,
-          credits_posted: 0,
+          debits_pending: 0n,
+          debits_posted: 0n,
+          credits_pending: 0n,
+          credits_posted: 0n,
         }),
       ]);
     });
@@ -98,38 +173,35 @@ describe("transactions integration test", () => {
         {
           id: "4",
           ledger: 700,
-          amount: 10,
+          amount: 10n,
           debit_account_id: 1,
           credit_account_id: 2,
           code: 0,
           flags: 0,
           pending_id: undefined,
           timeout: 0,
-          timestamp: Date.now(),
         },
         {
           id: "5",
           ledger: 700,
-          amount: 20,
+          amount: 20n,
           debit_account_id: 2,
           credit_account_id: 1,
           code: 0,
           flags: 0,
           pending_id: undefined,
           timeout: 0,
-          timestamp: Date.now(),
         },
         {
           id: "6",
           ledger: 700,
-          amount: 30,
+          amount: 30n,
           debit_account_id: 1,
           credit_account_id: 3,
           code: 0,
           flags: 0,
           pending_id: undefined,
           timeout: 0,
-          timestamp: Date.now(),
         },
       ];
 
@@ -146,33 +218,864 @@ describe("transactions integration test", () => {
         {
           id: 1,
           ledger: 700,
-          debits_pending: 0,
-          debits_posted: 40,
-          credits_pending: 0,
-          credits_posted: 20,
+          debits_pending: 0n,
+          debits_posted: 40n,
+          credits_pending: 0n,
+          credits_posted: 20n,
+          timestamp: expect.any(Number),
         },
         {
           id: 2,
           ledger: 700,
-          debits_pending: 0,
-          debits_posted: 20,
-          credits_pending: 0,
-          credits_posted: 10,
+          debits_pending: 0n,
+          debits_posted: 20n,
+          credits_pending: 0n,
+          credits_posted: 10n,
+          timestamp: expect.any(Number),
         },
         {
           id: 3,
           ledger: 700,
-          debits_pending: 0,
-          debits_posted: 0,
-          credits_pending: 0,
-          credits_posted: 30,
+          debits_pending: 0n,
+          debits_posted: 0n,
+          credits_pending: 0n,
+          credits_posted: 30n,
+          timestamp: expect.any(Number),
         },
       ]);
+      // Created concurrently, yet each at a timestamp of its own, and before the transfers on them
+      const created = accounts.map((account) => account!.timestamp!);
+      expect(new Set(created).size).toEqual(3);
+      expect(Math.min(...(result.timestamps as number[]))).toBeGreaterThan(Math.max(...created));
 
       const result2 = await getAccountsBatch(documentClient, TABLE_NAME, [1, 2, 3]);
       expect(result2.accounts).toIncludeSameMembers(accounts);
 
-      // TODO: validate the transfers table
+      const committed = transfers.map((transfer, i) => ({ ...transfer, timestamp: result.timestamps[i] }));
+      expect(await getTransfer(documentClient, TABLE_NAME, "4")).toEqual(committed[0]);
+      expect(await getTransfer(documentClient, TABLE_NAME, "7")).toBeUndefined();
+      const lookup = await lookupTransfers(documentClient, TABLE_NAME, ["6", "7", "4", "5"]);
+      expect(lookup.transfers).toEqual([committed[2], committed[0], committed[1]]);
+    });
+  });
+
+  describe("two-phase transfers", () => {
+    const emptyAccount = {
+      ledger: 700,
+      debits_pending: 0n,
+      debits_posted: 0n,
+      credits_pending: 0n,
+      credits_posted: 0n,
+    };
+
+    beforeAll(async () => {
+      await Promise.all([
+        createAccount(documentClient, TABLE_NAME, { ...emptyAccount, id: 11 }),
+        createAccount(documentClient, TABLE_NAME, { ...emptyAccount, id: 12 }),
+      ]);
+    });
+
+    test("pending transfer is posted for a partial amount", async () => {
+      const pending: Transfer = {
+        id: "20",
+        ledger: 700,
+        amount: 100n,
+        debit_account_id: 11,
+        credit_account_id: 12,
+        flags: TransferFlags.PENDING,
+        timeout: 0,
+      };
+      expect((await createTransfersBatch(documentClient, TABLE_NAME, [pending])).overallResult).toEqual(
+        TransferResult.OK,
+      );
+      expect(await getAccount(documentClient, TABLE_NAME, 11)).toMatchObject({
+        debits_pending: 100n,
+        debits_posted: 0n,
+      });
+
+      const post: Transfer = {
+        id: "21",
+        ledger: 0,
+        amount: 60n,
+        debit_account_id: 0,
+        credit_account_id: 0,
+        pending_id: "20",
+        flags: TransferFlags.POST_PENDING_TRANSFER,
+        timeout: 0,
+      };
+      expect((await createTransfersBatch(documentClient, TABLE_NAME, [post])).overallResult).toEqual(TransferResult.OK);
+      expect(await getAccount(documentClient, TABLE_NAME, 11)).toMatchObject({
+        debits_pending: 0n,
+        debits_posted: 60n,
+      });
+      expect(await getAccount(documentClient, TABLE_NAME, 12)).toMatchObject({
+        credits_pending: 0n,
+        credits_posted: 60n,
+      });
+
+      const voidAfterPost: Transfer = { ...post, id: "22", amount: 0n, flags: TransferFlags.VOID_PENDING_TRANSFER };
+      expect((await createTransfersBatch(documentClient, TABLE_NAME, [voidAfterPost])).overallResult).toEqual(
+        TransferResult.PENDING_TRANSFER_ALREADY_POSTED,
+      );
+    });
+
+    test("timed-out pending transfer is expired and can no longer be posted", async () => {
+      await Promise.all([
+        createAccount(documentClient, TABLE_NAME, { ...emptyAccount, id: 13 }),
+        createAccount(documentClient, TABLE_NAME, { ...emptyAccount, id: 14 }),
+      ]);
+      const pending: Transfer = {
+        id: "23",
+        ledger: 700,
+        amount: 100n,
+        debit_account_id: 13,
+        credit_account_id: 14,
+        flags: TransferFlags.PENDING,
+        timeout: 1,
+      };
+      const result = await createTransfersBatch(documentClient, TABLE_NAME, [pending]);
+      expect(result.overallResult).toEqual(TransferResult.OK);
+
+      const now = result.timestamps[0]! + 10_000;
+      expect((await expirePendingTransfers(documentClient, TABLE_NAME, { now })).expired).toContain("23");
+      expect(await getAccount(documentClient, TABLE_NAME, 13)).toMatchObject({ debits_pending: 0n, debits_posted: 0n });
+      expect(await getAccount(documentClient, TABLE_NAME, 14)).toMatchObject({
+        credits_pending: 0n,
+        credits_posted: 0n,
+      });
+      expect(await getTransfer(documentClient, TABLE_NAME, "23")).toMatchObject({
+        pending_status: PendingStatus.EXPIRED,
+      });
+
+      const post: Transfer = {
+        id: "24",
+        ledger: 0,
+        amount: 0n,
+        debit_account_id: 0,
+        credit_account_id: 0,
+        pending_id: "23",
+        flags: TransferFlags.POST_PENDING_TRANSFER,
+        timeout: 0,
+      };
+      expect((await createTransfersBatch(documentClient, TABLE_NAME, [post])).overallResult).toEqual(
+        TransferResult.PENDING_TRANSFER_EXPIRED,
+      );
+      expect((await expirePendingTransfers(documentClient, TABLE_NAME)).expired).not.toContain("23");
+    });
+  });
+
+  describe("balance limits", () => {
+    beforeAll(async () => {
+      await createAccountsBatch(documentClient, TABLE_NAME, [
+        {
+          id: 31,
+          ledger: 700,
+          flags: AccountFlags.DEBITS_MUST_NOT_EXCEED_CREDITS,
+          debits_pending: 0n,
+          debits_posted: 0n,
+          credits_pending: 0n,
+          credits_posted: 50n,
+        },
+        { id: 32, ledger: 700, debits_pending: 0n, debits_posted: 0n, credits_pending: 0n, credits_posted: 0n },
+      ]);
+    });
+
+    test("overdraft is rejected with INSUFFICIENT_FUNDS", async () => {
+      const transfer: Transfer = {
+        id: "30",
+        ledger: 700,
+        amount: 60n,
+        debit_account_id: 31,
+        credit_account_id: 32,
+        timeout: 0,
+      };
+      const overdraft = await createTransfersBatch(documentClient, TABLE_NAME, [transfer]);
+      expect(overdraft.overallResult).toEqual(TransferResult.INSUFFICIENT_FUNDS);
+
+      const withinLimit = await createTransfersBatch(documentClient, TABLE_NAME, [{ ...transfer, amount: 50n }]);
+      expect(withinLimit.overallResult).toEqual(TransferResult.OK);
+      expect(await getAccount(documentClient, TABLE_NAME, 31)).toEqual({
+        id: 31,
+        ledger: 700,
+        flags: AccountFlags.DEBITS_MUST_NOT_EXCEED_CREDITS,
+        debits_pending: 0n,
+        debits_posted: 50n,
+        credits_pending: 0n,
+        credits_posted: 50n,
+        timestamp: expect.any(Number),
+      });
+    });
+
+    test("large amounts add up exactly, and balances can't exceed MAX_AMOUNT", async () => {
+      const large = 2n ** 60n + 1n;
+      const common = { ledger: 700, timeout: 0, debit_account_id: 33 };
+      const result = await createTransfersBatch(documentClient, TABLE_NAME, [
+        { ...common, id: "33-1", amount: large, credit_account_id: 34 },
+        { ...common, id: "33-2", amount: large, credit_account_id: 34 },
+      ]);
+      expect(result.overallResult).toEqual(TransferResult.OK);
+      expect(await getAccount(documentClient, TABLE_NAME, 33)).toMatchObject({ debits_posted: 2n * large });
+
+      const overflow = await createTransfersBatch(documentClient, TABLE_NAME, [
+        { ...common, id: "33-3", amount: MAX_AMOUNT, credit_account_id: 35 },
+      ]);
+      expect(overflow.overallResult).toEqual(TransferResult.OVERFLOWS_DEBITS_POSTED);
+    });
+  });
+
+  describe("balancing transfers", () => {
+    beforeAll(async () => {
+      await createAccountsBatch(documentClient, TABLE_NAME, [
+        { id: 36, ledger: 700, debits_pending: 0n, debits_posted: 0n, credits_pending: 0n, credits_posted: 70n },
+        { id: 37, ledger: 700, debits_pending: 0n, debits_posted: 70n, credits_pending: 0n, credits_posted: 0n },
+      ]);
+    });
+
+    test("sweep what is left of the debit account's credits, and no more", async () => {
+      const sweep: Transfer = {
+        id: "36",
+        ledger: 700,
+        amount: 1_000n,
+        debit_account_id: 36,
+        credit_account_id: 37,
+        flags: TransferFlags.BALANCING_DEBIT,
+        timeout: 0,
+      };
+
+      const first = await createTransfersBatch(documentClient, TABLE_NAME, [sweep, { ...sweep, id: "37" }]);
+      expect(first.results).toEqual([TransferResult.OK, TransferResult.OK]);
+      expect(first.balancedAmounts).toEqual([70n, 0n]);
+      expect(await getTransfer(documentClient, TABLE_NAME, "36")).toMatchObject({ amount: 70n });
+      expect(await getAccount(documentClient, TABLE_NAME, 36)).toMatchObject({
+        debits_posted: 70n,
+        credits_posted: 70n,
+      });
+
+      const resubmitted = await createTransfersBatch(documentClient, TABLE_NAME, [sweep]);
+      expect(resubmitted.results).toEqual([TransferResult.EXISTS]);
+    });
+  });
+
+  describe("strict accounts", () => {
+    beforeAll(async () => {
+      await createAccountsBatch(documentClient, TABLE_NAME, [
+        { id: 41, ledger: 700, debits_pending: 0n, debits_posted: 0n, credits_pending: 0n, credits_posted: 0n },
+        { id: 42, ledger: 800, debits_pending: 0n, debits_posted: 0n, credits_pending: 0n, credits_posted: 0n },
+      ]);
+    });
+
+    test("transfers must be between existing accounts on the same ledger", async () => {
+      const transfer: Transfer = {
+        id: "40",
+        ledger: 700,
+        amount: 10n,
+        debit_account_id: 41,
+        credit_account_id: 43,
+        timeout: 0,
+      };
+
+      const unknownAccount = await createTransfersBatch(documentClient, TABLE_NAME, [transfer], undefined, {
+        strictAccounts: true,
+      });
+      expect(unknownAccount.results).toEqual([TransferResult.ACCOUNT_NOT_FOUND]);
+      expect(await getAccount(documentClient, TABLE_NAME, 43)).toBeUndefined();
+
+      const crossLedger = await createTransfersBatch(
+        documentClient,
+        TABLE_NAME,
+        [{ ...transfer, credit_account_id: 42 }],
+        undefined,
+        { strictAccounts: true },
+      );
+      expect(crossLedger.results).toEqual([TransferResult.LEDGER_MISMATCH]);
+    });
+  });
+
+  describe("closed and frozen accounts", () => {
+    beforeAll(async () => {
+      await createAccountsBatch(documentClient, TABLE_NAME, [
+        { id: 46, ledger: 700, debits_pending: 0n, debits_posted: 0n, credits_pending: 0n, credits_posted: 0n },
+        { id: 47, ledger: 700, debits_pending: 0n, debits_posted: 0n, credits_pending: 0n, credits_posted: 0n },
+      ]);
+    });
+
+    test("frozen accounts reject one side until unfrozen, and closed accounts reject both", async () => {
+      const transfer: Transfer = {
+        id: "45",
+        ledger: 700,
+        amount: 10n,
+        debit_account_id: 46,
+        credit_account_id: 47,
+        timeout: 0,
+      };
+
+      await freezeAccount(documentClient, TABLE_NAME, 46, AccountFlags.DEBITS_FROZEN);
+      expect((await createTransfersBatch(documentClient, TABLE_NAME, [transfer])).results).toEqual([
+        TransferResult.DEBITS_FROZEN,
+      ]);
+      const reverse = { ...transfer, id: "46", debit_account_id: 47, credit_account_id: 46 };
+      expect((await createTransfersBatch(documentClient, TABLE_NAME, [reverse])).results).toEqual([TransferResult.OK]);
+
+      await unfreezeAccount(documentClient, TABLE_NAME, 46);
+      expect((await createTransfersBatch(documentClient, TABLE_NAME, [transfer])).results).toEqual([TransferResult.OK]);
+
+      await expect(closeAccount(documentClient, TABLE_NAME, 47, { requireZeroBalance: true })).resolves.toBeUndefined();
+      expect(await getAccount(documentClient, TABLE_NAME, 47)).toMatchObject({ flags: AccountFlags.CLOSED });
+      expect(
+        (
+          await createTransfersBatch(documentClient, TABLE_NAME, [
+            { ...transfer, id: "47" },
+            { ...reverse, id: "48" },
+          ])
+        ).results,
+      ).toEqual([TransferResult.CREDIT_ACCOUNT_CLOSED, TransferResult.DEBIT_ACCOUNT_CLOSED]);
+    });
+  });
+
+  describe("idempotent resubmission", () => {
+    beforeAll(async () => {
+      await createAccountsBatch(documentClient, TABLE_NAME, [
+        { id: 51, ledger: 700, debits_pending: 0n, debits_posted: 0n, credits_pending: 0n, credits_posted: 0n },
+        { id: 52, ledger: 700, debits_pending: 0n, debits_posted: 0n, credits_pending: 0n, credits_posted: 0n },
+      ]);
+    });
+
+    test("resubmitted transfers are applied once", async () => {
+      const transfers: Transfer[] = [
+        { id: "50", ledger: 700, amount: 10n, debit_account_id: 51, credit_account_id: 52, timeout: 0 },
+        { id: "53", ledger: 700, amount: 20n, debit_account_id: 52, credit_account_id: 51, timeout: 0 },
+      ];
+      expect((await createTransfersBatch(documentClient, TABLE_NAME, transfers)).overallResult).toEqual(
+        TransferResult.OK,
+      );
+
+      // Depending on whether it falls into DynamoDB's idempotency window, the resubmission is either deduplicated
+      // by its client request token or reported as existing.
+      const resubmitted = await createTransfersBatch(documentClient, TABLE_NAME, transfers);
+      expect(resubmitted.overallResult).toEqual(TransferResult.OK);
+      expect(await getAccount(documentClient, TABLE_NAME, 51)).toMatchObject({
+        debits_posted: 10n,
+        credits_posted: 20n,
+      });
+
+      const partlyResubmitted = await createTransfersBatch(documentClient, TABLE_NAME, [
+        transfers[0],
+        { ...transfers[1], id: "54" },
+      ]);
+      expect(partlyResubmitted.results).toEqual([TransferResult.EXISTS, TransferResult.OK]);
+
+      const reusedId = await createTransfersBatch(documentClient, TABLE_NAME, [{ ...transfers[0], amount: 11n }]);
+      expect(reusedId.results).toEqual([TransferResult.EXISTS_WITH_DIFFERENT_FIELDS]);
+      expect(await getAccount(documentClient, TABLE_NAME, 51)).toMatchObject({
+        debits_posted: 10n,
+        credits_posted: 40n,
+      });
+    });
+  });
+
+  describe("currency exchange", () => {
+    const emptyBalances = { debits_pending: 0n, debits_posted: 0n, credits_pending: 0n, credits_posted: 0n };
+
+    beforeAll(async () => {
+      await createAccountsBatch(documentClient, TABLE_NAME, [
+        {
+          ...emptyBalances,
+          id: 111,
+          ledger: 700,
+          flags: AccountFlags.DEBITS_MUST_NOT_EXCEED_CREDITS,
+          credits_posted: 500n,
+        },
+        { ...emptyBalances, id: 112, ledger: 800 },
+        { ...emptyBalances, id: 170, ledger: 700 },
+        {
+          ...emptyBalances,
+          id: 180,
+          ledger: 800,
+          flags: AccountFlags.DEBITS_MUST_NOT_EXCEED_CREDITS,
+          credits_posted: 200n,
+        },
+      ]);
+    });
+
+    test("moves value across ledgers through the liquidity accounts, as a whole or not at all", async () => {
+      const exchange = {
+        id: "fx110",
+        debit_account_id: 111,
+        credit_account_id: 112,
+        source_ledger: 700,
+        destination_ledger: 800,
+        source_liquidity_account_id: 170,
+        destination_liquidity_account_id: 180,
+        amount: 100n,
+        rate: "1.5",
+      };
+      const result = await createCurrencyExchange(documentClient, TABLE_NAME, exchange, undefined, {
+        strictAccounts: true,
+      });
+      expect(result.overallResult).toEqual(TransferResult.OK);
+
+      // The destination liquidity account has 50 left, not enough for 150
+      const drained = await createCurrencyExchange(
+        documentClient,
+        TABLE_NAME,
+        { ...exchange, id: "fx111" },
+        undefined,
+        {
+          strictAccounts: true,
+        },
+      );
+      expect(drained.overallResult).toEqual(TransferResult.INSUFFICIENT_FUNDS);
+
+      const { accounts } = await getAccountsBatch(documentClient, TABLE_NAME, [111, 112, 170, 180]);
+      expect(accounts).toIncludeSameMembers([
+        expect.objectContaining({ id: 111, debits_posted: 100n }),
+        expect.objectContaining({ id: 112, credits_posted: 150n }),
+        expect.objectContaining({ id: 170, credits_posted: 100n }),
+        expect.objectContaining({ id: 180, debits_posted: 150n }),
+      ]);
+      expect(await getTransfer(documentClient, TABLE_NAME, "fx110.destination")).toMatchObject({
+        amount: 150n,
+        exchange_id: "fx110",
+        exchange_rate: "1.5",
+      });
+      expect(await getTransfer(documentClient, TABLE_NAME, "fx111.source")).toBeUndefined();
+    });
+  });
+
+  describe("linked chains", () => {
+    beforeAll(async () => {
+      await createAccountsBatch(documentClient, TABLE_NAME, [
+        { id: 61, ledger: 700, debits_pending: 0n, debits_posted: 0n, credits_pending: 0n, credits_posted: 0n },
+        {
+          id: 62,
+          ledger: 700,
+          debits_pending: 0n,
+          debits_posted: 0n,
+          credits_pending: 0n,
+          credits_posted: 0n,
+          flags: AccountFlags.DEBITS_MUST_NOT_EXCEED_CREDITS,
+        },
+      ]);
+    });
+
+    test("a failed link rolls back the whole chain", async () => {
+      const common = { ledger: 700, timeout: 0 };
+      const result = await createTransfersBatch(documentClient, TABLE_NAME, [
+        { ...common, id: "60", amount: 10n, debit_account_id: 61, credit_account_id: 62, flags: TransferFlags.LINKED },
+        { ...common, id: "63", amount: 20n, debit_account_id: 62, credit_account_id: 61 },
+        { ...common, id: "64", amount: 5n, debit_account_id: 62, credit_account_id: 61 },
+      ]);
+
+      expect(result.results).toEqual([
+        TransferResult.LINKED_EVENT_FAILED,
+        TransferResult.INSUFFICIENT_FUNDS,
+        TransferResult.INSUFFICIENT_FUNDS,
+      ]);
+      expect(await getAccount(documentClient, TABLE_NAME, 61)).toMatchObject({ debits_posted: 0n, credits_posted: 0n });
+    });
+  });
+
+  describe("account transfer history", () => {
+    const common = { ledger: 700, amount: 1n, timeout: 0 };
+    const transfers: Transfer[] = [
+      { ...common, id: "70", debit_account_id: 71, credit_account_id: 72 },
+      { ...common, id: "73", debit_account_id: 72, credit_account_id: 71 },
+      { ...common, id: "74", debit_account_id: 72, credit_account_id: 75 },
+      { ...common, id: "76", debit_account_id: 75, credit_account_id: 71 },
+      { ...common, id: "77", debit_account_id: 71, credit_account_id: 75 },
+    ];
+    const committed: Transfer[] = [];
+
+    beforeAll(async () => {
+      // One at a time, so that they are committed, and timestamped, in order
+      for (const transfer of transfers) {
+        const { timestamps } = await createTransfersBatch(documentClient, TABLE_NAME, [transfer]);
+        committed.push({ ...transfer, timestamp: timestamps[0] });
+      }
+    });
+
+    test("lists both sides of the account in timestamp order, page by page", async () => {
+      const ids: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await getAccountTransfers(documentClient, TABLE_NAME, 71, { limit: 2, cursor });
+        expect(page.transfers.length).toBeLessThanOrEqual(2);
+        ids.push(...page.transfers.map((t) => t.id));
+        cursor = page.cursor;
+      } while (cursor);
+
+      expect(ids).toEqual(["70", "73", "76", "77"]);
+    });
+
+    test("filters by timestamp, newest first", async () => {
+      const page = await getAccountTransfers(documentClient, TABLE_NAME, 71, {
+        fromTimestamp: committed[1].timestamp,
+        toTimestamp: committed[3].timestamp,
+        direction: SortDirection.DESC,
+      });
+
+      expect(page.transfers).toEqual([committed[3], committed[1]]);
+      expect(page.cursor).toBeUndefined();
+    });
+  });
+
+  describe("history accounts", () => {
+    beforeAll(async () => {
+      await createAccountsBatch(documentClient, TABLE_NAME, [
+        {
+          id: 81,
+          ledger: 700,
+          flags: AccountFlags.HISTORY,
+          debits_pending: 0n,
+          debits_posted: 0n,
+          credits_pending: 0n,
+          credits_posted: 5n,
+        },
+      ]);
+    });
+
+    test("balances can be read back as of any point in time", async () => {
+      const common = { ledger: 700, timeout: 0 };
+      const opened = (await getAccount(documentClient, TABLE_NAME, 81))!.timestamp!;
+      const result = await createTransfersBatch(documentClient, TABLE_NAME, [
+        { ...common, id: "80", amount: 10n, debit_account_id: 81, credit_account_id: 82 },
+        { ...common, id: "83", amount: 20n, debit_account_id: 82, credit_account_id: 81 },
+      ]);
+      expect(result.overallResult).toEqual(TransferResult.OK);
+      const [first, second] = result.timestamps as number[];
+      const last = await createTransfersBatch(documentClient, TABLE_NAME, [
+        { ...common, id: "84", amount: 1n, debit_account_id: 81, credit_account_id: 82 },
+      ]);
+
+      const balances = (asOf: number) =>
+        getAccountBalances(documentClient, TABLE_NAME, 81, { asOf }).then((r) => r.balances);
+      expect(await balances(opened - 1)).toEqual([]);
+      expect(await balances(first - 1)).toEqual([
+        { timestamp: opened, debits_pending: 0n, debits_posted: 0n, credits_pending: 0n, credits_posted: 5n },
+      ]);
+      expect(await balances(last.timestamps[0]! - 1)).toEqual([
+        {
+          timestamp: second,
+          transfer_id: "83",
+          debits_pending: 0n,
+          debits_posted: 10n,
+          credits_pending: 0n,
+          credits_posted: 25n,
+        },
+      ]);
+
+      const range = await getAccountBalances(documentClient, TABLE_NAME, 81, { fromTimestamp: first });
+      expect(range.balances.map((b) => b.transfer_id)).toEqual(["80", "83", "84"]);
+      expect(await getAccount(documentClient, TABLE_NAME, 81)).toMatchObject({
+        debits_posted: 11n,
+        credits_posted: 25n,
+      });
+    });
+  });
+
+  describe("sharded accounts", () => {
+    const emptyBalances = { debits_pending: 0n, debits_posted: 0n, credits_pending: 0n, credits_posted: 0n };
+
+    beforeAll(async () => {
+      await createAccountsBatch(documentClient, TABLE_NAME, [
+        {
+          ...emptyBalances,
+          id: 101,
+          ledger: 700,
+          flags: AccountFlags.DEBITS_MUST_NOT_EXCEED_CREDITS,
+          credits_posted: 100n,
+          shards: 4,
+        },
+      ]);
+    });
+
+    test("transfers spread over the shards and reads add them up, within the funds of a shard", async () => {
+      const common = { ledger: 700, timeout: 0, debit_account_id: 101, credit_account_id: 102 };
+      for (let i = 0; i < 8; i++) {
+        const result = await createTransfersBatch(documentClient, TABLE_NAME, [
+          { ...common, id: `101-${i}`, amount: 10n },
+        ]);
+        expect(result.overallResult).toEqual(TransferResult.OK);
+      }
+      // All the funds sit on the shard the account was opened with, which has 20 left
+      const overdraft = await createTransfersBatch(documentClient, TABLE_NAME, [
+        { ...common, id: "101-overdraft", amount: 30n },
+      ]);
+      expect(overdraft.overallResult).toEqual(TransferResult.INSUFFICIENT_FUNDS);
+
+      expect(await getAccount(documentClient, TABLE_NAME, 101)).toMatchObject({
+        shards: 4,
+        debits_posted: 80n,
+        credits_posted: 100n,
+      });
+      const { accounts } = await getAccountsBatch(documentClient, TABLE_NAME, [101]);
+      expect(accounts).toEqual([expect.objectContaining({ debits_posted: 80n })]);
+    });
+  });
+
+  describe("queries by user_data and code", () => {
+    const common = { ledger: 900, amount: 1n, timeout: 0, debit_account_id: 91, credit_account_id: 92 };
+    const emptyBalances = { debits_pending: 0n, debits_posted: 0n, credits_pending: 0n, credits_posted: 0n };
+
+    let timestamps: (number | undefined)[] = [];
+
+    beforeAll(async () => {
+      await createAccountsBatch(documentClient, TABLE_NAME, [
+        { ...emptyBalances, id: 91, ledger: 900, user_data: 1234, code: 1 },
+        { ...emptyBalances, id: 92, ledger: 900, code: 1 },
+      ]);
+      ({ timestamps } = await createTransfersBatch(documentClient, TABLE_NAME, [
+        { ...common, id: "90", user_data: 5678, code: 7 },
+        { ...common, id: "93", user_data: 5678, code: 8 },
+        { ...common, id: "94", code: 7 },
+      ]));
+    });
+
+    test("transfers by user_data, code and timestamp", async () => {
+      const byUserData = await queryTransfers(documentClient, TABLE_NAME, { user_data: 5678 });
+      expect(byUserData.transfers.map((t) => t.id)).toEqual(["90", "93"]);
+      expect(byUserData.transfers[0]).toEqual({
+        ...common,
+        id: "90",
+        user_data: 5678,
+        code: 7,
+        timestamp: timestamps[0],
+      });
+
+      const byCode = await queryTransfers(documentClient, TABLE_NAME, {
+        ledger: 900,
+        code: 7,
+        direction: SortDirection.DESC,
+      });
+      expect(byCode.transfers.map((t) => t.id)).toEqual(["94", "90"]);
+
+      const filtered = await queryTransfers(documentClient, TABLE_NAME, { user_data: 5678, code: 8 });
+      expect(filtered.transfers.map((t) => t.id)).toEqual(["93"]);
+
+      const inRange = await queryTransfers(documentClient, TABLE_NAME, {
+        ledger: 900,
+        code: 7,
+        fromTimestamp: timestamps[2],
+      });
+      expect(inRange.transfers.map((t) => t.id)).toEqual(["94"]);
+    });
+
+    test("accounts by user_data and code", async () => {
+      const byUserData = await queryAccounts(documentClient, TABLE_NAME, { user_data: 1234 });
+      expect(byUserData.accounts).toEqual([
+        {
+          ...emptyBalances,
+          id: 91,
+          ledger: 900,
+          user_data: 1234,
+          code: 1,
+          timestamp: expect.any(Number),
+          debits_posted: 3n,
+        },
+      ]);
+
+      const byCode = await queryAccounts(documentClient, TABLE_NAME, { ledger: 900, code: 1 });
+      expect(byCode.accounts.map((a) => a.id)).toEqual([91, 92]);
+    });
+  });
+
+  describe("ledger stores", () => {
+    const accounts: Account[] = [
+      {
+        id: 121,
+        ledger: 700,
+        debits_pending: 0n,
+        debits_posted: 0n,
+        credits_pending: 0n,
+        credits_posted: 0n,
+        flags: AccountFlags.DEBITS_MUST_NOT_EXCEED_CREDITS,
+      },
+      { id: 122, ledger: 700, debits_pending: 0n, debits_posted: 0n, credits_pending: 0n, credits_posted: 0n },
+      {
+        id: 123,
+        ledger: 700,
+        debits_pending: 0n,
+        debits_posted: 0n,
+        credits_pending: 0n,
+        credits_posted: 0n,
+        flags: AccountFlags.DEBITS_MUST_NOT_EXCEED_CREDITS,
+      },
+    ];
+    const common = { ledger: 700, timeout: 0 };
+    const batches: Transfer[][] = [
+      [
+        { ...common, id: "121", amount: 100n, debit_account_id: 122, credit_account_id: 121 },
+        {
+          ...common,
+          id: "122",
+          amount: 80n,
+          debit_account_id: 121,
+          credit_account_id: 122,
+          flags: TransferFlags.LINKED,
+        },
+        { ...common, id: "123", amount: 40n, debit_account_id: 121, credit_account_id: 122 },
+        {
+          ...common,
+          id: "124",
+          amount: 30n,
+          debit_account_id: 121,
+          credit_account_id: 122,
+          flags: TransferFlags.PENDING,
+        },
+      ],
+      [
+        { ...common, id: "121", amount: 100n, debit_account_id: 122, credit_account_id: 121 },
+        {
+          ...common,
+          id: "125",
+          amount: 500n,
+          debit_account_id: 121,
+          credit_account_id: 122,
+          flags: TransferFlags.BALANCING_DEBIT,
+        },
+        {
+          ...common,
+          id: "126",
+          amount: 0n,
+          debit_account_id: 0,
+          credit_account_id: 0,
+          ledger: 0,
+          pending_id: "124",
+          flags: TransferFlags.VOID_PENDING_TRANSFER,
+        },
+      ],
+      // A debit that only the credit after it would cover
+      [
+        { ...common, id: "127", amount: 100n, debit_account_id: 123, credit_account_id: 122 },
+        { ...common, id: "128", amount: 100n, debit_account_id: 122, credit_account_id: 123 },
+      ],
+      // Pending transfers posted and voided in the batch that creates them, by a later chain and within their own
+      [
+        {
+          ...common,
+          id: "129",
+          amount: 50n,
+          debit_account_id: 122,
+          credit_account_id: 123,
+          flags: TransferFlags.PENDING,
+        },
+        {
+          ...common,
+          id: "130",
+          amount: 20n,
+          debit_account_id: 122,
+          credit_account_id: 123,
+          ledger: 0,
+          pending_id: "129",
+          flags: TransferFlags.POST_PENDING_TRANSFER,
+        },
+        {
+          ...common,
+          id: "131",
+          amount: 30n,
+          debit_account_id: 122,
+          credit_account_id: 123,
+          flags: TransferFlags.PENDING | TransferFlags.LINKED,
+        },
+        {
+          ...common,
+          id: "132",
+          amount: 0n,
+          debit_account_id: 122,
+          credit_account_id: 123,
+          ledger: 0,
+          pending_id: "131",
+          flags: TransferFlags.VOID_PENDING_TRANSFER,
+        },
+      ],
+      [
+        {
+          ...common,
+          id: "133",
+          amount: 1000n,
+          debit_account_id: 121,
+          credit_account_id: 122,
+          flags: TransferFlags.PENDING | TransferFlags.LINKED,
+        },
+        {
+          ...common,
+          id: "134",
+          amount: 0n,
+          debit_account_id: 121,
+          credit_account_id: 122,
+          ledger: 0,
+          pending_id: "133",
+          flags: TransferFlags.POST_PENDING_TRANSFER,
+        },
+      ],
+    ];
+
+    const withoutTimestamp = <T extends { timestamp?: number }>({ timestamp: _, ...rest }: T) => rest;
+
+    test("DynamoDB and in-memory stores agree on the outcome of the same batches", async () => {
+      const stores: LedgerStore[] = [new DynamoDbLedgerStore(documentClient, TABLE_NAME), new InMemoryLedgerStore()];
+      const outcomes = [];
+      for (const store of stores) {
+        await store.createAccounts(accounts);
+        const results = [];
+        for (const batch of batches) {
+          const { results: batchResults, balancedAmounts } = await store.createTransfers(batch, undefined, {
+            strictAccounts: true,
+          });
+          results.push({ batchResults, balancedAmounts });
+        }
+        outcomes.push({
+          results,
+          // Each store assigns timestamps of its own
+          accounts: (await store.getAccounts([121, 122, 123])).accounts
+            ?.sort((a, b) => a.id - b.id)
+            .map(withoutTimestamp),
+          transfers: (
+            await store.lookupTransfers([
+              "121",
+              "122",
+              "123",
+              "124",
+              "125",
+              "126",
+              "127",
+              "128",
+              "129",
+              "130",
+              "131",
+              "132",
+            ])
+          ).transfers.map(withoutTimestamp),
+        });
+      }
+
+      expect(outcomes[0].results[0].batchResults).toEqual([
+        TransferResult.OK,
+        TransferResult.LINKED_EVENT_FAILED,
+        TransferResult.INSUFFICIENT_FUNDS,
+        TransferResult.OK,
+      ]);
+      expect(outcomes[0].results[2].batchResults).toEqual([TransferResult.INSUFFICIENT_FUNDS, TransferResult.OK]);
+      expect(outcomes[0].results[3].batchResults).toEqual([
+        TransferResult.OK,
+        TransferResult.OK,
+        TransferResult.OK,
+        TransferResult.OK,
+      ]);
+      expect(outcomes[0].results[4].batchResults).toEqual([
+        TransferResult.INSUFFICIENT_FUNDS,
+        TransferResult.LINKED_EVENT_FAILED,
+      ]);
+      expect(outcomes[1]).toEqual(outcomes[0]);
+    });
+  });
+
+  describe("reconciliation", () => {
+    test("balances left behind by all of the above add up", async () => {
+      const report = await reconcile(documentClient, TABLE_NAME, { segments: 2 });
+
+      expect(report.transfersScanned).toBeGreaterThan(0);
+      expect(report.drift).toEqual([]);
     });
   });
 });
@@ -2,7 +2,44 @@ import * as dynamodb from "@aws-sdk/client-dynamodb";
 import * as ddc from "@aws-sdk/lib-dynamodb";
 import { mockClient } from "aws-sdk-client-mock";
 import "aws-sdk-client-mock-jest";
-import { CreateTransfersResult, Transfer, TransferResult, createTransfersBatch } from "../lib/transactions.js";
+import { marshall } from "@aws-sdk/util-dynamodb";
+import * as matchers from "jest-extended";
+import {
+  AccountExistsError,
+  AccountNotFoundError,
+  LedgerError,
+  ThrottledError,
+  TransientError,
+  ValidationError,
+} from "../lib/errors.js";
+import {
+  AccountFlags,
+  CODE_INDEX,
+  CREDIT_ACCOUNT_TRANSFERS_INDEX,
+  CreateTransfersResult,
+  DEBIT_ACCOUNT_TRANSFERS_INDEX,
+  EXPIRY_INDEX,
+  MAX_AMOUNT,
+  PendingStatus,
+  Transfer,
+  TransferFlags,
+  TransferResult,
+  USER_DATA_INDEX,
+  closeAccount,
+  createAccountsBatch,
+  createTransfersBatch,
+  expirePendingTransfers,
+  freezeAccount,
+  getAccount,
+  getAccountBalances,
+  getAccountsBatch,
+  getAccountTransfers,
+  lookupTransfers,
+  queryTransfers,
+  unfreezeAccount,
+} from "../lib/transactions.js";
+
+expect.extend(matchers);
 
 const ddbMock = mockClient(ddc.DynamoDBDocumentClient);
 
@@ -15,19 +52,626 @@ const TABLE_NAME = "transactions";
 
 const txnCommon = {
   ledger: 700,
-  amount: 10,
+  amount: 10n,
   code: 0,
   flags: 0,
   pending_id: undefined,
   timeout: 0,
-  timestamp: Date.now(),
 };
 const txn1 = { ...txnCommon, id: "1", debit_account_id: 1, credit_account_id: 2 };
-const txn2 = { ...txnCommon, id: "2", debit_account_id: 3, credit_account_id: 4, amount: 20 };
+const txn2 = { ...txnCommon, id: "2", debit_account_id: 3, credit_account_id: 4, amount: 20n };
 
 describe("transactions", () => {
+  beforeEach(() => {
+    ddbMock.reset();
+  });
+
   describe("conflicting items within a batch get retried as individual writes", () => {
+    const conflictOn = (count: number, conflicting: number[]) =>
+      new dynamodb.TransactionCanceledException({
+        $metadata: {},
+        message: "Transaction cancelled, please refer cancellation reasons for specific reasons",
+        CancellationReasons: Array.from({ length: count }, (_, i) =>
+          conflicting.includes(i)
+            ? { Code: "TransactionConflict", Message: "Transaction is ongoing for the item" }
+            : { Code: "None" },
+        ),
+      });
+
+    // Can't get p-Retry to work under Jest; trivial retry strategy to verify it is being used
+    const testRetryStrategy = async (fn: () => Promise<CreateTransfersResult>) => {
+      try {
+        return await fn();
+      } catch (err) {
+        // Retry just once on retryable errors:
+        if (err instanceof LedgerError && err.retryable) {
+          return await fn();
+        }
+        throw err;
+      }
+    };
+
     test("create transfers batch", async () => {
+      // Items: transfer#1, transfer#2, account#1, account#2, account#3 (conflicting), account#4, clock
+      ddbMock
+        .on(ddc.TransactWriteCommand)
+        .rejectsOnce(conflictOn(7, [4]))
+        .resolves({
+          $metadata: {},
+          ConsumedCapacity: [],
+        });
+
+      const transfers: Transfer[] = [txn1, txn2];
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, transfers, testRetryStrategy);
+      expect(result.overallResult).toEqual(TransferResult.OK);
+      expect(result.itemsWritten).toEqual(8);
+
+      const calls = ddbMock.commandCalls(ddc.TransactWriteCommand);
+      expect(calls.length).toEqual(3);
+      const keys = calls.map(({ args }) =>
+        args[0].input.TransactItems!.map((item) => item.Put?.Item?.pk ?? item.Update?.Key?.pk),
+      );
+      // The uncontended transfer is committed first, then the contended one on its own
+      expect(keys[1]).toEqual(["transfer#1", "account#1", "account#2", "clock"]);
+      expect(keys[2]).toEqual(["transfer#2", "account#3", "account#4", "clock"]);
+    });
+  });
+
+  describe("errors", () => {
+    const account = (id: number) => ({
+      id,
+      ledger: 700,
+      debits_pending: 0n,
+      debits_posted: 0n,
+      credits_pending: 0n,
+      credits_posted: 0n,
+    });
+
+    test("existing and invalid accounts", async () => {
+      ddbMock.on(ddc.TransactWriteCommand).rejects(
+        new dynamodb.TransactionCanceledException({
+          $metadata: {},
+          message: "Transaction cancelled, please refer cancellation reasons for specific reasons",
+          CancellationReasons: [{ Code: "None" }, { Code: "ConditionalCheckFailed" }, { Code: "None" }],
+        }),
+      );
+
+      const created = createAccountsBatch(dynamoDbDocumentClient, TABLE_NAME, [account(1), account(2)]);
+      await expect(created).rejects.toThrow(AccountExistsError);
+      await expect(created).rejects.toMatchObject({ accountIds: [2], retryable: false });
+      await expect(
+        createAccountsBatch(dynamoDbDocumentClient, TABLE_NAME, [{ ...account(3), debits_posted: -1n }]),
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        createAccountsBatch(dynamoDbDocumentClient, TABLE_NAME, [account(4), account(5), account(4)]),
+      ).rejects.toThrow("Account 4: appears more than once in the batch");
+      // Four accounts of 32 shards each don't fit into a single transaction
+      await expect(
+        createAccountsBatch(
+          dynamoDbDocumentClient,
+          TABLE_NAME,
+          [10, 11, 12, 13].map((id) => ({ ...account(id), shards: 32 })),
+        ),
+      ).rejects.toThrow(ValidationError);
+      expect(ddbMock).toHaveReceivedCommandTimes(ddc.TransactWriteCommand, 1);
+    });
+
+    test("throttling and timeouts are retryable, with the SDK error as the cause", async () => {
+      const throttled = new dynamodb.ProvisionedThroughputExceededException({ $metadata: {}, message: "Throttled" });
+      const timeout = Object.assign(new Error("Connection timed out"), { name: "TimeoutError" });
+      ddbMock.on(ddc.TransactWriteCommand).rejectsOnce(throttled).rejectsOnce(timeout);
+
+      const first = createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [txn1]);
+      await expect(first).rejects.toThrow(ThrottledError);
+      await expect(first).rejects.toMatchObject({ retryable: true, cause: throttled });
+      const second = createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [txn1]);
+      await expect(second).rejects.toThrow(TransientError);
+      await expect(second).rejects.toBeInstanceOf(LedgerError);
+    });
+  });
+
+  describe("two-phase transfers", () => {
+    const pendingTxn = { ...txn1, id: "10", flags: TransferFlags.PENDING, timeout: 60 };
+
+    test("pending transfer reserves funds in the pending balances", async () => {
+      ddbMock.on(ddc.TransactWriteCommand).resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [pendingTxn]);
+
+      expect(result.overallResult).toEqual(TransferResult.OK);
+      expect(ddbMock).toHaveReceivedCommandWith(ddc.TransactWriteCommand, {
+        TransactItems: expect.arrayContaining([
+          expect.objectContaining({
+            Put: expect.objectContaining({
+              Item: expect.objectContaining({ pk: "transfer#10", pending_status: PendingStatus.PENDING }),
+            }),
+          }),
+          expect.objectContaining({
+            Update: expect.objectContaining({
+              Key: { pk: "account#1", sk: "account#1" },
+              ExpressionAttributeValues: expect.objectContaining({
+                ":debits_pending": 10n,
+                ":debits_posted": 0n,
+                ":credits_pending": 0n,
+                ":credits_posted": 0n,
+              }),
+            }),
+          }),
+        ]),
+      });
+    });
+
+    test("posting a pending transfer for a smaller amount releases the full reservation", async () => {
+      ddbMock.on(ddc.BatchGetCommand).resolves({
+        $metadata: {},
+        Responses: {
+          [TABLE_NAME]: [
+            { pk: "transfer#10", sk: "transfer#10", ...pendingTxn, pending_status: PendingStatus.PENDING },
+          ],
+        },
+      });
+      ddbMock.on(ddc.TransactWriteCommand).resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      const post: Transfer = {
+        ...txnCommon,
+        id: "11",
+        debit_account_id: 0,
+        credit_account_id: 0,
+        amount: 4n,
+        pending_id: "10",
+        flags: TransferFlags.POST_PENDING_TRANSFER,
+      };
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [post]);
+
+      expect(result.overallResult).toEqual(TransferResult.OK);
+      expect(ddbMock).toHaveReceivedCommandWith(ddc.TransactWriteCommand, {
+        TransactItems: expect.arrayContaining([
+          expect.objectContaining({
+            Update: expect.objectContaining({
+              Key: { pk: "transfer#10", sk: "transfer#10" },
+              ConditionExpression: "pending_status = :pending",
+              ExpressionAttributeValues: { ":status": PendingStatus.POSTED, ":pending": PendingStatus.PENDING },
+            }),
+          }),
+          expect.objectContaining({
+            Put: expect.objectContaining({
+              Item: expect.objectContaining({
+                pk: "transfer#11",
+                debit_account_id: 1,
+                credit_account_id: 2,
+                amount: 4n,
+              }),
+            }),
+          }),
+          expect.objectContaining({
+            Update: expect.objectContaining({
+              Key: { pk: "account#2", sk: "account#2" },
+              ExpressionAttributeValues: expect.objectContaining({
+                ":debits_pending": 0n,
+                ":debits_posted": 0n,
+                ":credits_pending": -10n,
+                ":credits_posted": 4n,
+              }),
+            }),
+          }),
+        ]),
+      });
+    });
+
+    test("a pending transfer posted later in its chain is written posted, in the same transaction", async () => {
+      ddbMock.on(ddc.BatchGetCommand).resolves({ $metadata: {}, Responses: { [TABLE_NAME]: [] } });
+      ddbMock.on(ddc.TransactWriteCommand).resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      const post: Transfer = {
+        ...txnCommon,
+        id: "11",
+        debit_account_id: 0,
+        credit_account_id: 0,
+        amount: 0n,
+        pending_id: "10",
+        flags: TransferFlags.POST_PENDING_TRANSFER,
+      };
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [
+        { ...pendingTxn, flags: TransferFlags.PENDING | TransferFlags.LINKED },
+        post,
+      ]);
+
+      expect(result.results).toEqual([TransferResult.OK, TransferResult.OK]);
+      expect(ddbMock).toHaveReceivedCommandTimes(ddc.TransactWriteCommand, 1);
+      const items = ddbMock.commandCalls(ddc.TransactWriteCommand)[0].args[0].input.TransactItems!;
+      expect(items.filter((item) => item.Update?.Key?.pk === "transfer#10")).toHaveLength(0);
+      expect(items).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            Put: expect.objectContaining({
+              Item: expect.objectContaining({ pk: "transfer#10", pending_status: PendingStatus.POSTED }),
+            }),
+          }),
+          expect.objectContaining({
+            Put: expect.objectContaining({ Item: expect.objectContaining({ pk: "transfer#11", amount: 10n }) }),
+          }),
+          expect.objectContaining({
+            Update: expect.objectContaining({
+              Key: { pk: "account#1", sk: "account#1" },
+              ExpressionAttributeValues: expect.objectContaining({ ":debits_pending": 0n, ":debits_posted": 10n }),
+            }),
+          }),
+        ]),
+      );
+      const pending = items.find((item) => item.Put?.Item?.pk === "transfer#10")!.Put!.Item!;
+      expect(pending).not.toContainKey("expiry_key");
+    });
+
+    test("a pending transfer posted by a later chain is committed first", async () => {
+      // Read by the post once the pending transfer is committed
+      ddbMock.on(ddc.BatchGetCommand).resolves({
+        $metadata: {},
+        Responses: {
+          [TABLE_NAME]: [
+            { pk: "transfer#10", sk: "transfer#10", ...pendingTxn, pending_status: PendingStatus.PENDING },
+          ],
+        },
+      });
+      ddbMock.on(ddc.TransactWriteCommand).resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      const post: Transfer = {
+        ...txnCommon,
+        id: "11",
+        debit_account_id: 0,
+        credit_account_id: 0,
+        amount: 4n,
+        pending_id: "10",
+        flags: TransferFlags.POST_PENDING_TRANSFER,
+      };
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [pendingTxn, post]);
+
+      expect(result.results).toEqual([TransferResult.OK, TransferResult.OK]);
+      expect(ddbMock).toHaveReceivedCommandTimes(ddc.TransactWriteCommand, 2);
+      const [created, posted] = ddbMock.commandCalls(ddc.TransactWriteCommand).map((call) => call.args[0].input);
+      expect(created.TransactItems).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            Put: expect.objectContaining({
+              Item: expect.objectContaining({ pk: "transfer#10", pending_status: PendingStatus.PENDING }),
+            }),
+          }),
+        ]),
+      );
+      expect(posted.TransactItems).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            Update: expect.objectContaining({
+              Key: { pk: "transfer#10", sk: "transfer#10" },
+              ExpressionAttributeValues: expect.objectContaining({ ":status": PendingStatus.POSTED }),
+            }),
+          }),
+        ]),
+      );
+    });
+
+    test("voiding an already voided pending transfer is rejected without writing", async () => {
+      ddbMock.on(ddc.BatchGetCommand).resolves({
+        $metadata: {},
+        Responses: {
+          [TABLE_NAME]: [{ pk: "transfer#10", sk: "transfer#10", ...pendingTxn, pending_status: PendingStatus.VOIDED }],
+        },
+      });
+
+      const voidTxn: Transfer = {
+        ...txnCommon,
+        id: "12",
+        amount: 0n,
+        pending_id: "10",
+        debit_account_id: 0,
+        credit_account_id: 0,
+        flags: TransferFlags.VOID_PENDING_TRANSFER,
+      };
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [voidTxn]);
+
+      expect(result.overallResult).toEqual(TransferResult.PENDING_TRANSFER_ALREADY_VOIDED);
+      expect(ddbMock).toHaveReceivedCommandTimes(ddc.TransactWriteCommand, 0);
+    });
+
+    test("pending transfers with a timeout are indexed by when they expire", async () => {
+      ddbMock.on(ddc.TransactWriteCommand).resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [
+        pendingTxn,
+        { ...pendingTxn, id: "13", timeout: 0 },
+      ]);
+
+      const puts = ddbMock
+        .commandCalls(ddc.TransactWriteCommand)[0]
+        .args[0].input.TransactItems!.filter((item) => item.Put)
+        .map((item) => item.Put!.Item!);
+      expect(puts[0]).toMatchObject({
+        expiry_key: expect.stringMatching(/^pending#\d+$/),
+        expires_at: result.timestamps[0]! + 60_000,
+      });
+      expect(puts[1]).not.toContainAnyKeys(["expiry_key", "expires_at"]);
+    });
+
+    test("expiring voids timed-out pending transfers in place, restoring the pending balances", async () => {
+      const timestamp = Date.now();
+      const now = timestamp + 120_000;
+      ddbMock.on(ddc.QueryCommand).resolves({ $metadata: {}, Items: [] });
+      ddbMock.on(ddc.QueryCommand, { ExpressionAttributeValues: { ":key": "pending#3", ":now": now } }).resolves({
+        $metadata: {},
+        Items: [
+          {
+            pk: "transfer#10",
+            sk: "transfer#10",
+            ...pendingTxn,
+            timestamp,
+            pending_status: PendingStatus.PENDING,
+            expiry_key: "pending#3",
+            expires_at: timestamp + 60_000,
+          },
+        ],
+      });
+      ddbMock.on(ddc.TransactWriteCommand).resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      const result = await expirePendingTransfers(dynamoDbDocumentClient, TABLE_NAME, { now });
+
+      expect(result.expired).toEqual(["10"]);
+      expect(result.cursor).toBeUndefined();
+      expect(ddbMock).toHaveReceivedCommandTimes(ddc.QueryCommand, 16);
+      expect(ddbMock).toHaveReceivedCommandWith(ddc.QueryCommand, { TableName: TABLE_NAME, IndexName: EXPIRY_INDEX });
+      const items = ddbMock.commandCalls(ddc.TransactWriteCommand)[0].args[0].input.TransactItems!;
+      // The pending transfer is marked expired, and no transfer of its own is recorded for voiding it
+      expect(items.filter((item) => item.Put)).toBeEmpty();
+      expect(items).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            Update: expect.objectContaining({
+              Key: { pk: "transfer#10", sk: "transfer#10" },
+              UpdateExpression: "SET pending_status = :status REMOVE expiry_key",
+              ExpressionAttributeValues: { ":status": PendingStatus.EXPIRED, ":pending": PendingStatus.PENDING },
+            }),
+          }),
+          expect.objectContaining({
+            Update: expect.objectContaining({
+              Key: { pk: "account#1", sk: "account#1" },
+              ExpressionAttributeValues: expect.objectContaining({ ":debits_pending": -10n, ":debits_posted": 0n }),
+            }),
+          }),
+        ]),
+      );
+    });
+
+    test("expiring carries on from the cursor it returned, past the pending transfers it already saw", async () => {
+      const timestamp = Date.now();
+      const now = timestamp + 120_000;
+      const item = {
+        pk: "transfer#10",
+        sk: "transfer#10",
+        ...pendingTxn,
+        timestamp,
+        pending_status: PendingStatus.PENDING,
+        expiry_key: "pending#3",
+        expires_at: timestamp + 60_000,
+      };
+      const lastKey = { pk: item.pk, sk: item.sk, expiry_key: item.expiry_key, expires_at: item.expires_at };
+      ddbMock.on(ddc.QueryCommand).resolves({ $metadata: {}, Items: [] });
+      ddbMock
+        .on(ddc.QueryCommand, { ExpressionAttributeValues: { ":key": "pending#3", ":now": now } })
+        .resolves({ $metadata: {}, Items: [item], LastEvaluatedKey: lastKey });
+      ddbMock.on(ddc.TransactWriteCommand).resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      const first = await expirePendingTransfers(dynamoDbDocumentClient, TABLE_NAME, { now });
+      expect(first.cursor).toBeDefined();
+      ddbMock.resetHistory();
+      await expirePendingTransfers(dynamoDbDocumentClient, TABLE_NAME, { now, cursor: first.cursor });
+
+      expect(ddbMock).toHaveReceivedCommandWith(ddc.QueryCommand, {
+        TableName: TABLE_NAME,
+        ExpressionAttributeValues: { ":key": "pending#3", ":now": now },
+        ExclusiveStartKey: lastKey,
+      });
+    });
+
+    test("posting an expired pending transfer is rejected without writing", async () => {
+      ddbMock.on(ddc.BatchGetCommand).resolves({
+        $metadata: {},
+        Responses: {
+          [TABLE_NAME]: [
+            {
+              pk: "transfer#10",
+              sk: "transfer#10",
+              ...pendingTxn,
+              pending_status: PendingStatus.PENDING,
+              expires_at: Date.now() - 1,
+            },
+          ],
+        },
+      });
+
+      const post: Transfer = {
+        ...txnCommon,
+        id: "14",
+        debit_account_id: 0,
+        credit_account_id: 0,
+        pending_id: "10",
+        flags: TransferFlags.POST_PENDING_TRANSFER,
+      };
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [post]);
+
+      expect(result.overallResult).toEqual(TransferResult.PENDING_TRANSFER_EXPIRED);
+      expect(ddbMock).toHaveReceivedCommandTimes(ddc.TransactWriteCommand, 0);
+    });
+  });
+
+  describe("balance limits", () => {
+    test("debits are conditioned on the headroom of accounts that limit them", async () => {
+      ddbMock.on(ddc.TransactWriteCommand).resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [txn1]);
+
+      const { TransactItems } = ddbMock.commandCalls(ddc.TransactWriteCommand)[0].args[0].input;
+      const debitUpdate = TransactItems!.find((item) => item.Update?.Key?.pk === "account#1")!.Update!;
+      expect(debitUpdate.ConditionExpression).toEqual(
+        "NOT contains(flags, :closed) AND NOT contains(flags, :debits_frozen) AND " +
+          "(NOT contains(flags, :debits_limit) OR debit_headroom >= :debits_required) AND " +
+          "(attribute_not_exists(debits_posted) OR debits_posted <= :debits_posted_max) AND " +
+          "NOT contains(flags, :history) AND attribute_not_exists(shards)",
+      );
+      expect(debitUpdate.ExpressionAttributeValues).toMatchObject({
+        ":debits_limit": AccountFlags[AccountFlags.DEBITS_MUST_NOT_EXCEED_CREDITS],
+        ":debits_required": 10n,
+        ":debit_headroom": -10n,
+        ":credit_headroom": 10n,
+      });
+      const creditUpdate = TransactItems!.find((item) => item.Update?.Key?.pk === "account#2")!.Update!;
+      expect(creditUpdate.ConditionExpression).toEqual(
+        "NOT contains(flags, :closed) AND NOT contains(flags, :credits_frozen) AND " +
+          "(NOT contains(flags, :credits_limit) OR credit_headroom >= :credits_required) AND " +
+          "(attribute_not_exists(credits_posted) OR credits_posted <= :credits_posted_max) AND " +
+          "NOT contains(flags, :history) AND attribute_not_exists(shards)",
+      );
+    });
+
+    test("are enforced at the lowest point the batch takes the balances to, not on its net change", async () => {
+      ddbMock.on(ddc.TransactWriteCommand).resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      // A debit covered only by a credit that comes after it, then a debit of what the credit left
+      await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [
+        { ...txn1, amount: 100n },
+        { ...txn1, id: "3", debit_account_id: 2, credit_account_id: 1, amount: 100n },
+        { ...txn1, id: "4", amount: 30n },
+      ]);
+
+      const { TransactItems } = ddbMock.commandCalls(ddc.TransactWriteCommand)[0].args[0].input;
+      const update = TransactItems!.find((item) => item.Update?.Key?.pk === "account#1")!.Update!;
+      expect(update.ExpressionAttributeValues).toMatchObject({ ":debits_required": 100n, ":debit_headroom": -30n });
+    });
+
+    test("a linked chain that breaches the limit doesn't count against the transfers after it", async () => {
+      ddbMock
+        .on(ddc.TransactWriteCommand)
+        .rejectsOnce(
+          new dynamodb.TransactionCanceledException({
+            $metadata: {},
+            message: "Transaction cancelled, please refer cancellation reasons for specific reasons",
+            CancellationReasons: [
+              ...Array.from({ length: 5 }, () => ({ Code: "None" })),
+              {
+                Code: "ConditionalCheckFailed",
+                Item: {
+                  pk: { S: "account#1" },
+                  sk: { S: "account#1" },
+                  flags: { SS: [AccountFlags[AccountFlags.DEBITS_MUST_NOT_EXCEED_CREDITS]] },
+                },
+              },
+              { Code: "None" },
+            ],
+          }),
+        )
+        .resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [
+        { ...txn1, id: "3", debit_account_id: 2, credit_account_id: 1, amount: 100n },
+        { ...txn1, id: "4", amount: 80n, flags: TransferFlags.LINKED },
+        { ...txn1, id: "5", amount: 40n },
+        { ...txn1, id: "6", amount: 30n, flags: TransferFlags.PENDING },
+      ]);
+
+      expect(result.results).toEqual([
+        TransferResult.OK,
+        TransferResult.LINKED_EVENT_FAILED,
+        TransferResult.INSUFFICIENT_FUNDS,
+        TransferResult.OK,
+      ]);
+    });
+
+    test("failed balance limit condition rejects the batch with INSUFFICIENT_FUNDS", async () => {
+      ddbMock.on(ddc.TransactWriteCommand).rejects(
+        new dynamodb.TransactionCanceledException({
+          $metadata: {},
+          message: "Transaction cancelled, please refer cancellation reasons for specific reasons",
+          CancellationReasons: [
+            { Code: "None" },
+            {
+              Code: "ConditionalCheckFailed",
+              Item: {
+                pk: { S: "account#1" },
+                sk: { S: "account#1" },
+                flags: { SS: [AccountFlags[AccountFlags.DEBITS_MUST_NOT_EXCEED_CREDITS]] },
+              },
+            },
+            { Code: "None" },
+            { Code: "None" },
+          ],
+        }),
+      );
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [txn1]);
+
+      expect(result.overallResult).toEqual(TransferResult.INSUFFICIENT_FUNDS);
+      expect(result.itemsWritten).toEqual(0);
+    });
+
+    test("amounts beyond the safe integer range are written exactly, up to MAX_AMOUNT", async () => {
+      ddbMock.on(ddc.TransactWriteCommand).resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      const large = 2n ** 60n + 1n;
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [
+        { ...txn1, amount: large },
+        { ...txn1, id: "3", amount: large },
+        { ...txn2, amount: MAX_AMOUNT + 1n },
+        { ...txn2, id: "4", amount: -1n },
+      ]);
+
+      expect(result.results).toEqual([
+        TransferResult.OK,
+        TransferResult.OK,
+        TransferResult.AMOUNT_OUT_OF_RANGE,
+        TransferResult.AMOUNT_OUT_OF_RANGE,
+      ]);
+      const { TransactItems } = ddbMock.commandCalls(ddc.TransactWriteCommand)[0].args[0].input;
+      const debitUpdate = TransactItems!.find((item) => item.Update?.Key?.pk === "account#1")!.Update!;
+      expect(debitUpdate.ExpressionAttributeValues).toMatchObject({
+        ":debits_posted": 2n * large,
+        ":debits_posted_max": MAX_AMOUNT - 2n * large,
+      });
+    });
+
+    test("failed overflow condition is attributed to the transfer that would exceed MAX_AMOUNT", async () => {
+      ddbMock
+        .on(ddc.TransactWriteCommand)
+        .rejectsOnce(
+          new dynamodb.TransactionCanceledException({
+            $metadata: {},
+            message: "Transaction cancelled, please refer cancellation reasons for specific reasons",
+            CancellationReasons: [
+              { Code: "None" },
+              { Code: "None" },
+              {
+                Code: "ConditionalCheckFailed",
+                Item: marshall({ pk: "account#1", sk: "account#1", debits_posted: MAX_AMOUNT - 15n }),
+              },
+              { Code: "None" },
+              { Code: "None" },
+              { Code: "None" },
+            ],
+          }),
+        )
+        .resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [
+        txn1,
+        { ...txn1, id: "3", credit_account_id: 3 },
+      ]);
+
+      // The account has room for one of the two
+      expect(result.results).toEqual([TransferResult.OK, TransferResult.OVERFLOWS_DEBITS_POSTED]);
+    });
+  });
+
+  describe("balancing transfers", () => {
+    const balancingTxn = { ...txn1, id: "15", amount: 40n, flags: TransferFlags.BALANCING_DEBIT };
+
+    test("are clamped to the headroom the account turns out to have, in batch order", async () => {
       ddbMock
         .on(ddc.TransactWriteCommand)
         .rejectsOnce(
@@ -35,37 +679,1277 @@ describe("transactions", () => {
             $metadata: {},
             message: "Transaction cancelled, please refer cancellation reasons for specific reasons",
             CancellationReasons: [
+              { Code: "None" },
               { Code: "None" },
               {
-                Code: "TransactionConflict",
-                Message: "Transaction is ongoing for the item",
+                Code: "ConditionalCheckFailed",
+                Item: marshall({ pk: "account#1", sk: "account#1", credits_posted: 50n, debit_headroom: 50n }),
               },
+              { Code: "None" },
+              { Code: "None" },
+              { Code: "None" },
             ],
           }),
         )
-        .resolves({
+        .resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [
+        balancingTxn,
+        { ...balancingTxn, id: "16", credit_account_id: 3 },
+      ]);
+
+      expect(result.results).toEqual([TransferResult.OK, TransferResult.OK]);
+      expect(result.balancedAmounts).toEqual([40n, 10n]);
+      const [first, second] = ddbMock
+        .commandCalls(ddc.TransactWriteCommand)
+        .map(({ args }) => args[0].input.TransactItems!);
+      // Until the account has been seen, the amounts are clamped as if it were empty
+      expect(first.filter((item) => item.Put).map((item) => item.Put!.Item!.amount)).toEqual([0n, 0n]);
+      expect(first[2].Update!.ConditionExpression).toInclude("attribute_not_exists(pk)");
+      expect(second.filter((item) => item.Put).map((item) => item.Put!.Item!.amount)).toEqual([40n, 10n]);
+      expect(second[2].Update).toMatchObject({
+        ConditionExpression: expect.stringContaining("debit_headroom = :debit_headroom_seen"),
+        ExpressionAttributeValues: expect.objectContaining({ ":debit_headroom_seen": 50n, ":debits_posted": 50n }),
+      });
+    });
+
+    test("resubmissions match the clamped amount, and posts and voids can't be balancing", async () => {
+      ddbMock.on(ddc.TransactWriteCommand).rejects(
+        new dynamodb.TransactionCanceledException({
           $metadata: {},
-          ConsumedCapacity: [],
+          message: "Transaction cancelled, please refer cancellation reasons for specific reasons",
+          CancellationReasons: [
+            {
+              Code: "ConditionalCheckFailed",
+              Item: marshall(
+                { pk: "transfer#15", sk: "transfer#15", ...balancingTxn, amount: 25n },
+                { removeUndefinedValues: true },
+              ),
+            },
+            { Code: "None" },
+            { Code: "None" },
+            { Code: "None" },
+          ],
+        }),
+      );
+      ddbMock.on(ddc.BatchGetCommand).resolves({ $metadata: {}, Responses: { [TABLE_NAME]: [] } });
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [
+        balancingTxn,
+        {
+          ...balancingTxn,
+          id: "17",
+          pending_id: "10",
+          flags: TransferFlags.BALANCING_DEBIT | TransferFlags.POST_PENDING_TRANSFER,
+        },
+      ]);
+
+      expect(result.results).toEqual([TransferResult.EXISTS, TransferResult.FLAGS_ARE_MUTUALLY_EXCLUSIVE]);
+    });
+  });
+
+  describe("commit timestamps", () => {
+    test("are assigned by the ledger, not the client", async () => {
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [{ ...txn1, timestamp: 1000 }]);
+
+      expect(result.results).toEqual([TransferResult.TIMESTAMP_MUST_NOT_BE_SET]);
+      await expect(
+        createAccountsBatch(dynamoDbDocumentClient, TABLE_NAME, [
+          {
+            id: 1,
+            ledger: 700,
+            debits_pending: 0n,
+            debits_posted: 0n,
+            credits_pending: 0n,
+            credits_posted: 0n,
+            timestamp: 1000,
+          },
+        ]),
+      ).rejects.toThrow(ValidationError);
+      expect(ddbMock).toHaveReceivedCommandTimes(ddc.TransactWriteCommand, 0);
+    });
+
+    test("increase in commit order, each transaction moving the table's clock on", async () => {
+      ddbMock.on(ddc.TransactWriteCommand).resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      const first = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [txn1, { ...txn1, id: "3" }]);
+      const second = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [txn2]);
+
+      const [t1, t2] = first.timestamps as number[];
+      expect(t2).toBeGreaterThan(t1);
+      expect(second.timestamps[0]).toBeGreaterThan(t2);
+      const items = ddbMock.commandCalls(ddc.TransactWriteCommand)[0].args[0].input.TransactItems!;
+      expect(items[0].Put?.Item).toMatchObject({ pk: "transfer#1", timestamp: t1 });
+      expect(items[items.length - 1].Update).toMatchObject({
+        Key: { pk: "clock", sk: "clock" },
+        UpdateExpression: "SET last_timestamp = :last_timestamp",
+        ConditionExpression: "attribute_not_exists(last_timestamp) OR last_timestamp < :first_timestamp",
+        ExpressionAttributeValues: { ":first_timestamp": t1, ":last_timestamp": t2 },
+      });
+      const keys = ddbMock
+        .commandCalls(ddc.TransactWriteCommand)
+        .map(({ args }) => args[0].input.TransactItems!.map((item) => item.Put?.Item?.pk ?? item.Update?.Key?.pk));
+      expect(keys).toEqual([
+        ["transfer#1", "transfer#3", "account#1", "account#2", "clock"],
+        ["transfer#2", "account#3", "account#4", "clock"],
+      ]);
+    });
+
+    const clockAt = (last_timestamp: number, code = "ConditionalCheckFailed") =>
+      new dynamodb.TransactionCanceledException({
+        $metadata: {},
+        message: "Transaction cancelled, please refer cancellation reasons for specific reasons",
+        CancellationReasons: [
+          { Code: "None" },
+          { Code: "None" },
+          { Code: "None" },
+          { Code: code, Item: marshall({ pk: "clock", sk: "clock", last_timestamp }) },
+        ],
+      });
+
+    test("a clock moved on by another writer is learned, and the transfers re-driven after it", async () => {
+      const ahead = Date.now() + 3_600_000;
+      ddbMock
+        .on(ddc.TransactWriteCommand)
+        .rejectsOnce(clockAt(ahead))
+        .resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [txn1]);
+
+      expect(result.results).toEqual([TransferResult.OK]);
+      expect(result.timestamps[0]).toBeGreaterThan(ahead);
+      expect(ddbMock).toHaveReceivedCommandTimes(ddc.TransactWriteCommand, 2);
+    });
+
+    test("a clock that keeps moving on gets the transfers reported as conflicting", async () => {
+      let ahead = Date.now() + 3_600_000;
+      ddbMock.on(ddc.TransactWriteCommand).callsFake(() => Promise.reject(clockAt((ahead += 1_000))));
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [txn1]);
+
+      expect(result.results).toEqual([TransferResult.CONFLICT]);
+      // The first attempt and five re-drives
+      expect(ddbMock).toHaveReceivedCommandTimes(ddc.TransactWriteCommand, 6);
+    });
+
+    test("a conflict on the clock alone re-drives the whole transaction rather than splitting it", async () => {
+      const conflict = new dynamodb.TransactionCanceledException({
+        $metadata: {},
+        message: "Transaction cancelled, please refer cancellation reasons for specific reasons",
+        CancellationReasons: [...Array.from({ length: 6 }, () => ({ Code: "None" })), { Code: "TransactionConflict" }],
+      });
+      ddbMock.on(ddc.TransactWriteCommand).rejectsOnce(conflict).resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [txn1, txn2]);
+
+      expect(result.results).toEqual([TransferResult.OK, TransferResult.OK]);
+      expect(ddbMock).toHaveReceivedCommandTimes(ddc.TransactWriteCommand, 2);
+      expect(ddbMock.commandCalls(ddc.TransactWriteCommand)[1].args[0].input.TransactItems).toHaveLength(7);
+    });
+
+    test("accounts are created after the clock as well", async () => {
+      const ahead = Date.now() + 3_600_000;
+      ddbMock
+        .on(ddc.TransactWriteCommand)
+        .rejectsOnce(
+          new dynamodb.TransactionCanceledException({
+            $metadata: {},
+            message: "Transaction cancelled, please refer cancellation reasons for specific reasons",
+            CancellationReasons: [
+              { Code: "None" },
+              { Code: "ConditionalCheckFailed", Item: marshall({ pk: "clock", sk: "clock", last_timestamp: ahead }) },
+            ],
+          }),
+        )
+        .resolves({ $metadata: {} });
+
+      await createAccountsBatch(dynamoDbDocumentClient, TABLE_NAME, [
+        { id: 1, ledger: 700, debits_pending: 0n, debits_posted: 0n, credits_pending: 0n, credits_posted: 0n },
+      ]);
+
+      const [first, second] = ddbMock
+        .commandCalls(ddc.TransactWriteCommand)
+        .map(({ args }) => args[0].input.TransactItems!);
+      expect(first[1].Update).toMatchObject({ Key: { pk: "clock", sk: "clock" } });
+      expect(second[0].Put!.Item!.timestamp).toBeGreaterThan(ahead);
+      expect(second[1].Update!.ExpressionAttributeValues).toMatchObject({
+        ":first_timestamp": second[0].Put!.Item!.timestamp,
+      });
+    });
+  });
+
+  describe("per-transfer results", () => {
+    const cancellation = (reasons: dynamodb.CancellationReason[]) =>
+      new dynamodb.TransactionCanceledException({
+        $metadata: {},
+        message: "Transaction cancelled, please refer cancellation reasons for specific reasons",
+        CancellationReasons: reasons,
+      });
+
+    test("failed conditions are attributed to the transfers that caused them", async () => {
+      ddbMock
+        .on(ddc.TransactWriteCommand)
+        .rejectsOnce(
+          cancellation([
+            { Code: "None" },
+            {
+              Code: "ConditionalCheckFailed",
+              Item: { pk: { S: "transfer#2" }, sk: { S: "transfer#2" }, id: { S: "2" }, amount: { N: "999" } },
+            },
+            { Code: "None" },
+            { Code: "None" },
+            { Code: "None" },
+            { Code: "None" },
+            { Code: "None" },
+          ]),
+        )
+        .resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [txn1, txn2]);
+
+      expect(result.overallResult).toEqual(TransferResult.EXISTS_WITH_DIFFERENT_FIELDS);
+      expect(result.results).toEqual([TransferResult.OK, TransferResult.EXISTS_WITH_DIFFERENT_FIELDS]);
+      // The unaffected transfer is resubmitted by itself
+      expect(ddbMock).toHaveReceivedCommandTimes(ddc.TransactWriteCommand, 2);
+    });
+
+    test("conflicts that outlast the retry strategy are reported per transfer", async () => {
+      ddbMock
+        .on(ddc.TransactWriteCommand)
+        .rejectsOnce(
+          cancellation([
+            { Code: "None" },
+            { Code: "None" },
+            { Code: "None" },
+            { Code: "None" },
+            { Code: "TransactionConflict", Message: "Transaction is ongoing for the item" },
+            { Code: "None" },
+            { Code: "None" },
+          ]),
+        )
+        .resolvesOnce({ $metadata: {}, ConsumedCapacity: [] })
+        .rejects(
+          cancellation([
+            { Code: "None" },
+            { Code: "TransactionConflict", Message: "Transaction is ongoing for the item" },
+            { Code: "None" },
+            { Code: "None" },
+          ]),
+        );
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [txn1, txn2]);
+
+      expect(result.overallResult).toEqual(TransferResult.CONFLICT);
+      expect(result.results).toEqual([TransferResult.OK, TransferResult.CONFLICT]);
+      expect(result.transactions).toEqual([expect.objectContaining({ committed: true, itemsWritten: 4 })]);
+    });
+
+    test("invalid transfers are rejected and the rest of the batch is written", async () => {
+      ddbMock.on(ddc.TransactWriteCommand).resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [txn1, { ...txn2, timeout: 10 }]);
+
+      expect(result.results).toEqual([TransferResult.OK, TransferResult.TIMEOUT_RESERVED_FOR_PENDING_TRANSFER]);
+      expect(ddbMock).toHaveReceivedCommandTimes(ddc.TransactWriteCommand, 1);
+    });
+  });
+
+  describe("strict accounts", () => {
+    test("account updates require the account to exist on the transfer's ledger", async () => {
+      ddbMock.on(ddc.TransactWriteCommand).resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [txn1], undefined, { strictAccounts: true });
+
+      const { TransactItems } = ddbMock.commandCalls(ddc.TransactWriteCommand)[0].args[0].input;
+      const creditUpdate = TransactItems!.find((item) => item.Update?.Key?.pk === "account#2")!.Update!;
+      expect(creditUpdate.ConditionExpression).toStartWith("attribute_exists(pk) AND ledger = :ledger0");
+      expect(creditUpdate.ExpressionAttributeValues).toMatchObject({ ":ledger0": 700 });
+    });
+
+    test("transfers to unknown accounts or across ledgers are rejected", async () => {
+      ddbMock.on(ddc.TransactWriteCommand).rejects(
+        new dynamodb.TransactionCanceledException({
+          $metadata: {},
+          message: "Transaction cancelled, please refer cancellation reasons for specific reasons",
+          CancellationReasons: [
+            { Code: "None" },
+            { Code: "None" },
+            { Code: "None" },
+            { Code: "ConditionalCheckFailed" },
+            { Code: "None" },
+            { Code: "ConditionalCheckFailed", Item: { pk: { S: "account#4" }, ledger: { N: "800" } } },
+            { Code: "None" },
+          ],
+        }),
+      );
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [txn1, txn2], undefined, {
+        strictAccounts: true,
+      });
+
+      expect(result.results).toEqual([TransferResult.ACCOUNT_NOT_FOUND, TransferResult.LEDGER_MISMATCH]);
+    });
+
+    test("transfers between an account and itself are rejected", async () => {
+      const result = await createTransfersBatch(
+        dynamoDbDocumentClient,
+        TABLE_NAME,
+        [{ ...txn1, credit_account_id: txn1.debit_account_id }],
+        undefined,
+        { strictAccounts: true },
+      );
+
+      expect(result.overallResult).toEqual(TransferResult.ACCOUNTS_MUST_BE_DIFFERENT);
+      expect(ddbMock).toHaveReceivedCommandTimes(ddc.TransactWriteCommand, 0);
+    });
+  });
+
+  describe("closed and frozen accounts", () => {
+    const shardKey = (id: number, shard: number) => ({
+      pk: `account#${id}#shard#${shard}`,
+      sk: `account#${id}#shard#${shard}`,
+    });
+    const balances = (debits_posted: bigint, credits_posted: bigint) => ({
+      debits_pending: 0n,
+      debits_posted,
+      credits_pending: 0n,
+      credits_posted,
+    });
+
+    test("transfers are attributed the side of the account that turned them away", async () => {
+      ddbMock
+        .on(ddc.TransactWriteCommand)
+        .rejectsOnce(
+          new dynamodb.TransactionCanceledException({
+            $metadata: {},
+            message: "Transaction cancelled, please refer cancellation reasons for specific reasons",
+            CancellationReasons: [
+              { Code: "None" },
+              { Code: "None" },
+              { Code: "None" },
+              {
+                Code: "ConditionalCheckFailed",
+                Item: marshall({
+                  pk: "account#2",
+                  sk: "account#2",
+                  flags: new Set([AccountFlags[AccountFlags.CLOSED]]),
+                }),
+              },
+              { Code: "None" },
+              { Code: "None" },
+            ],
+          }),
+        )
+        .resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [
+        txn1,
+        { ...txn1, id: "3", debit_account_id: 2, credit_account_id: 3 },
+      ]);
+
+      expect(result.results).toEqual([TransferResult.CREDIT_ACCOUNT_CLOSED, TransferResult.DEBIT_ACCOUNT_CLOSED]);
+      const { TransactItems } = ddbMock.commandCalls(ddc.TransactWriteCommand)[0].args[0].input;
+      const update = TransactItems!.find((item) => item.Update?.Key?.pk === "account#2")!.Update!;
+      expect(update.ConditionExpression).toStartWith(
+        "NOT contains(flags, :closed) AND NOT contains(flags, :debits_frozen) AND NOT contains(flags, :credits_frozen)",
+      );
+    });
+
+    test("voids go through regardless, releasing what pending transfers hold", async () => {
+      ddbMock.on(ddc.BatchGetCommand).resolves({
+        $metadata: {},
+        Responses: {
+          [TABLE_NAME]: [
+            {
+              pk: "transfer#10",
+              sk: "transfer#10",
+              ...txn1,
+              id: "10",
+              flags: TransferFlags.PENDING,
+              pending_status: PendingStatus.PENDING,
+            },
+          ],
+        },
+      });
+      ddbMock.on(ddc.TransactWriteCommand).resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [
+        {
+          ...txnCommon,
+          id: "12",
+          amount: 0n,
+          pending_id: "10",
+          debit_account_id: 0,
+          credit_account_id: 0,
+          flags: TransferFlags.VOID_PENDING_TRANSFER,
+        },
+      ]);
+
+      const { TransactItems } = ddbMock.commandCalls(ddc.TransactWriteCommand)[0].args[0].input;
+      for (const pk of ["account#1", "account#2"]) {
+        const update = TransactItems!.find((item) => item.Update?.Key?.pk === pk)!.Update!;
+        expect(update.ConditionExpression).not.toInclude("frozen");
+        expect(update.ConditionExpression).not.toInclude(":closed");
+      }
+    });
+
+    test("closing with a zero balance is conditioned on the balances of every shard", async () => {
+      ddbMock.on(ddc.GetCommand).resolves({
+        $metadata: {},
+        Item: { pk: "account#54", sk: "account#54", shards: 2, ...balances(30n, 10n) },
+      });
+      ddbMock.on(ddc.BatchGetCommand).resolves({
+        $metadata: {},
+        Responses: { [TABLE_NAME]: [{ ...shardKey(54, 1), ...balances(0n, 20n) }] },
+      });
+      ddbMock.on(ddc.TransactWriteCommand).resolves({ $metadata: {} });
+
+      await closeAccount(dynamoDbDocumentClient, TABLE_NAME, 54, { requireZeroBalance: true });
+
+      const updates = ddbMock
+        .commandCalls(ddc.TransactWriteCommand)[0]
+        .args[0].input.TransactItems!.map((item) => item.Update!);
+      expect(updates.map((u) => u.Key!.pk)).toEqual(["account#54", "account#54#shard#1"]);
+      expect(updates[1]).toMatchObject({
+        UpdateExpression: "ADD flags :flags",
+        ConditionExpression:
+          "attribute_exists(pk) AND debits_pending = :debits_pending AND debits_posted = :debits_posted AND " +
+          "credits_pending = :credits_pending AND credits_posted = :credits_posted",
+        ExpressionAttributeValues: {
+          ":flags": new Set([AccountFlags[AccountFlags.CLOSED]]),
+          ":debits_posted": 0n,
+          ":credits_posted": 20n,
+        },
+      });
+
+      ddbMock.on(ddc.BatchGetCommand).resolves({ $metadata: {}, Responses: { [TABLE_NAME]: [] } });
+      await expect(closeAccount(dynamoDbDocumentClient, TABLE_NAME, 54, { requireZeroBalance: true })).rejects.toThrow(
+        new ValidationError("Account 54: balance must be zero to close it"),
+      );
+
+      ddbMock
+        .on(ddc.BatchGetCommand)
+        .rejects(new dynamodb.ProvisionedThroughputExceededException({ $metadata: {}, message: "Rate exceeded" }));
+      await expect(
+        closeAccount(dynamoDbDocumentClient, TABLE_NAME, 54, { requireZeroBalance: true }),
+      ).rejects.toBeInstanceOf(ThrottledError);
+    });
+
+    test("accounts that don't exist, or can't be read, can't be closed or frozen", async () => {
+      ddbMock.on(ddc.GetCommand).resolves({ $metadata: {} });
+      await expect(closeAccount(dynamoDbDocumentClient, TABLE_NAME, 54)).rejects.toThrow(new AccountNotFoundError(54));
+
+      ddbMock.on(ddc.GetCommand).rejects(Object.assign(new Error("socket hang up"), { code: "ECONNRESET" }));
+      await expect(freezeAccount(dynamoDbDocumentClient, TABLE_NAME, 54)).rejects.toBeInstanceOf(TransientError);
+      expect(ddbMock.commandCalls(ddc.TransactWriteCommand)).toHaveLength(0);
+    });
+
+    test("freezing and unfreezing add and remove the flags on every shard", async () => {
+      ddbMock.on(ddc.GetCommand).resolves({ $metadata: {}, Item: { pk: "account#54", sk: "account#54", shards: 2 } });
+      ddbMock.on(ddc.TransactWriteCommand).resolves({ $metadata: {} });
+
+      await freezeAccount(dynamoDbDocumentClient, TABLE_NAME, 54, AccountFlags.DEBITS_FROZEN);
+      await unfreezeAccount(dynamoDbDocumentClient, TABLE_NAME, 54);
+
+      const [freeze, unfreeze] = ddbMock
+        .commandCalls(ddc.TransactWriteCommand)
+        .map(({ args }) => args[0].input.TransactItems!.map((item) => item.Update!));
+      expect(freeze).toHaveLength(2);
+      expect(freeze[1]).toMatchObject({
+        Key: shardKey(54, 1),
+        UpdateExpression: "ADD flags :flags",
+        ExpressionAttributeValues: { ":flags": new Set([AccountFlags[AccountFlags.DEBITS_FROZEN]]) },
+      });
+      expect(unfreeze[0]).toMatchObject({
+        UpdateExpression: "DELETE flags :flags",
+        ExpressionAttributeValues: {
+          ":flags": new Set([AccountFlags[AccountFlags.DEBITS_FROZEN], AccountFlags[AccountFlags.CREDITS_FROZEN]]),
+        },
+      });
+      await expect(freezeAccount(dynamoDbDocumentClient, TABLE_NAME, 54, AccountFlags.CLOSED)).rejects.toThrow();
+    });
+  });
+
+  describe("idempotent resubmission", () => {
+    test("transactions retried as they are keep their client request token", async () => {
+      ddbMock
+        .on(ddc.TransactWriteCommand)
+        .rejectsOnce(
+          new dynamodb.TransactionCanceledException({
+            $metadata: {},
+            message: "Transaction cancelled, please refer cancellation reasons for specific reasons",
+            CancellationReasons: [
+              { Code: "None" },
+              { Code: "None" },
+              { Code: "TransactionConflict", Message: "Transaction is ongoing for the item" },
+              { Code: "None" },
+            ],
+          }),
+        )
+        .resolves({ $metadata: {}, ConsumedCapacity: [] });
+      const retryOnce = async (fn: () => Promise<CreateTransfersResult>) => fn().catch(() => fn());
+
+      await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [txn1], retryOnce);
+      await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [{ ...txn1, id: "3" }]);
+
+      const tokens = ddbMock
+        .commandCalls(ddc.TransactWriteCommand)
+        .map((call) => call.args[0].input.ClientRequestToken);
+      expect(tokens[0]).toEqual(tokens[1]);
+      expect(tokens[0]).not.toEqual(tokens[2]);
+    });
+
+    test("transfers resubmitted by another call get the same token, though written at another time", async () => {
+      ddbMock.on(ddc.TransactWriteCommand).resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [txn1]);
+      await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [txn1]);
+
+      const [first, second] = ddbMock.commandCalls(ddc.TransactWriteCommand).map((call) => call.args[0].input);
+      expect(first.TransactItems).not.toEqual(second.TransactItems);
+      expect(first.ClientRequestToken).toEqual(second.ClientRequestToken);
+    });
+
+    test("a resubmission refused under its token is written under a token of its own", async () => {
+      ddbMock
+        .on(ddc.TransactWriteCommand)
+        .rejectsOnce(
+          new dynamodb.IdempotentParameterMismatchException({
+            $metadata: {},
+            message: "Request has a ClientRequestToken that was already used with different parameters",
+          }),
+        )
+        .resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [txn1]);
+
+      expect(result.overallResult).toEqual(TransferResult.OK);
+      const tokens = ddbMock
+        .commandCalls(ddc.TransactWriteCommand)
+        .map((call) => call.args[0].input.ClientRequestToken);
+      expect(tokens).toHaveLength(2);
+      expect(tokens[0]).not.toEqual(tokens[1]);
+    });
+
+    test("a transfer repeated within the batch is written once, and the repeat checked against it", async () => {
+      const existing = (transfer: Transfer) =>
+        marshall(
+          { pk: `transfer#${transfer.id}`, sk: `transfer#${transfer.id}`, ...transfer },
+          {
+            removeUndefinedValues: true,
+          },
+        );
+      ddbMock
+        .on(ddc.TransactWriteCommand)
+        .resolvesOnce({ $metadata: {}, ConsumedCapacity: [] })
+        .rejectsOnce(
+          new dynamodb.TransactionCanceledException({
+            $metadata: {},
+            message: "Transaction cancelled, please refer cancellation reasons for specific reasons",
+            CancellationReasons: [
+              { Code: "ConditionalCheckFailed", Item: existing(txn2) },
+              { Code: "None" },
+              { Code: "None" },
+              { Code: "None" },
+              { Code: "None" },
+              { Code: "None" },
+              { Code: "None" },
+            ],
+          }),
+        )
+        .rejectsOnce(
+          new dynamodb.TransactionCanceledException({
+            $metadata: {},
+            message: "Transaction cancelled, please refer cancellation reasons for specific reasons",
+            CancellationReasons: [
+              { Code: "ConditionalCheckFailed", Item: existing(txn1) },
+              { Code: "None" },
+              { Code: "None" },
+              { Code: "None" },
+            ],
+          }),
+        );
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [
+        txn1,
+        { ...txn1 },
+        txn2,
+        { ...txn2, amount: 21n, flags: TransferFlags.LINKED },
+        { ...txn1, id: "3" },
+      ]);
+
+      expect(result.results).toEqual([
+        TransferResult.OK,
+        TransferResult.EXISTS,
+        TransferResult.OK,
+        TransferResult.EXISTS_WITH_DIFFERENT_FIELDS,
+        TransferResult.LINKED_EVENT_FAILED,
+      ]);
+      // The chain repeating an earlier transfer is submitted once that one is committed, the other repeat is held back
+      // and submitted on its own
+      const keys = ddbMock
+        .commandCalls(ddc.TransactWriteCommand)
+        .map(({ args }) => args[0].input.TransactItems!.map((item) => item.Put?.Item?.pk ?? item.Update?.Key?.pk));
+      expect(keys).toEqual([
+        ["transfer#1", "transfer#2", "account#1", "account#2", "account#3", "account#4", "clock"],
+        ["transfer#2", "transfer#3", "account#3", "account#4", "account#1", "account#2", "clock"],
+        ["transfer#1", "account#1", "account#2", "clock"],
+      ]);
+      expect(result.transactions.flatMap((t) => t.transfers)).toEqual([0, 2, 3, 4, 1]);
+    });
+
+    test("a repeat within a linked chain goes the way of its chain", async () => {
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [
+        { ...txn1, flags: TransferFlags.LINKED },
+        { ...txn1, flags: TransferFlags.LINKED },
+        { ...txn2, timestamp: 1 },
+      ]);
+
+      expect(result.results).toEqual([
+        TransferResult.LINKED_EVENT_FAILED,
+        TransferResult.LINKED_EVENT_FAILED,
+        TransferResult.TIMESTAMP_MUST_NOT_BE_SET,
+      ]);
+      expect(result.overallResult).toEqual(TransferResult.TIMESTAMP_MUST_NOT_BE_SET);
+      expect(ddbMock).toHaveReceivedCommandTimes(ddc.TransactWriteCommand, 0);
+    });
+
+    test("transfers that were already applied are reported as existing and the rest are written", async () => {
+      ddbMock
+        .on(ddc.TransactWriteCommand)
+        .rejectsOnce(
+          new dynamodb.TransactionCanceledException({
+            $metadata: {},
+            message: "Transaction cancelled, please refer cancellation reasons for specific reasons",
+            CancellationReasons: [
+              {
+                Code: "ConditionalCheckFailed",
+                Item: marshall({ pk: "transfer#1", sk: "transfer#1", ...txn1 }, { removeUndefinedValues: true }),
+              },
+              { Code: "None" },
+              { Code: "None" },
+              { Code: "None" },
+              { Code: "None" },
+              { Code: "None" },
+              { Code: "None" },
+            ],
+          }),
+        )
+        .resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [txn1, txn2]);
+
+      expect(result.overallResult).toEqual(TransferResult.OK);
+      expect(result.results).toEqual([TransferResult.EXISTS, TransferResult.OK]);
+      const { TransactItems } = ddbMock.commandCalls(ddc.TransactWriteCommand)[1].args[0].input;
+      expect(TransactItems!.map((item) => item.Put?.Item?.pk ?? item.Update?.Key?.pk)).toEqual([
+        "transfer#2",
+        "account#3",
+        "account#4",
+        "clock",
+      ]);
+    });
+  });
+
+  describe("oversize batches", () => {
+    test("are split into transactions within the item limit, keeping shared accounts together", async () => {
+      ddbMock.on(ddc.TransactWriteCommand).resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      // 40 transfers between a hot account and distinct peers, interleaved with 40 between distinct pairs
+      const transfers: Transfer[] = [];
+      for (let i = 0; i < 40; i++) {
+        transfers.push({ ...txnCommon, id: `hot-${i}`, debit_account_id: 1, credit_account_id: 1000 + i });
+        transfers.push({ ...txnCommon, id: `p2p-${i}`, debit_account_id: 2000 + i, credit_account_id: 3000 + i });
+      }
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, transfers);
+
+      expect(result.overallResult).toEqual(TransferResult.OK);
+      expect(result.results).toSatisfyAll((r) => r === TransferResult.OK);
+      const calls = ddbMock.commandCalls(ddc.TransactWriteCommand);
+      expect(calls.length).toEqual(result.transactions.length);
+      expect(calls.length).toBeGreaterThan(1);
+      for (const call of calls) {
+        expect(call.args[0].input.TransactItems!.length).toBeLessThanOrEqual(100);
+      }
+      // All transfers from the hot account are coalesced into a single balance update
+      const hotAccountUpdates = calls.flatMap((call) =>
+        call.args[0].input.TransactItems!.filter((item) => item.Update?.Key?.pk === "account#1"),
+      );
+      expect(hotAccountUpdates).toHaveLength(1);
+      expect(result.transactions.flatMap((t) => t.transfers)).toIncludeSameMembers(transfers.map((_, i) => i));
+      // Plus the clock, once per transaction
+      expect(result.itemsWritten).toEqual(40 + 41 + 40 * 3 + calls.length);
+    });
+
+    test("groups too large for one transaction are split in batch order", async () => {
+      ddbMock.on(ddc.TransactWriteCommand).resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      const transfers: Transfer[] = [];
+      for (let i = 0; i < 120; i++) {
+        transfers.push({ ...txnCommon, id: `${i}`, debit_account_id: 1, credit_account_id: 1000 + i });
+      }
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, transfers);
+
+      expect(result.results).toSatisfyAll((r) => r === TransferResult.OK);
+      expect(result.transactions.map((t) => t.transfers.length)).toEqual([49, 49, 22]);
+      expect(result.transactions.flatMap((t) => t.transfers)).toEqual(transfers.map((_, i) => i));
+    });
+  });
+
+  describe("linked chains", () => {
+    const linkedA = { ...txn1, id: "A", flags: TransferFlags.LINKED };
+    const chainedB = { ...txn2, id: "B" };
+    const independentC = { ...txnCommon, id: "C", debit_account_id: 5, credit_account_id: 6 };
+
+    test("a failed chain fails every member while independent transfers are committed", async () => {
+      ddbMock
+        .on(ddc.TransactWriteCommand)
+        .rejectsOnce(
+          new dynamodb.TransactionCanceledException({
+            $metadata: {},
+            message: "Transaction cancelled, please refer cancellation reasons for specific reasons",
+            CancellationReasons: [
+              { Code: "None" },
+              { Code: "None" },
+              { Code: "None" },
+              { Code: "None" },
+              { Code: "None" },
+              {
+                Code: "ConditionalCheckFailed",
+                Item: marshall({
+                  pk: "account#3",
+                  flags: new Set([AccountFlags[AccountFlags.DEBITS_MUST_NOT_EXCEED_CREDITS]]),
+                  debit_headroom: 5n,
+                }),
+              },
+              { Code: "None" },
+              { Code: "None" },
+              { Code: "None" },
+              { Code: "None" },
+            ],
+          }),
+        )
+        .resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [linkedA, chainedB, independentC]);
+
+      expect(result.overallResult).toEqual(TransferResult.INSUFFICIENT_FUNDS);
+      expect(result.results).toEqual([
+        TransferResult.LINKED_EVENT_FAILED,
+        TransferResult.INSUFFICIENT_FUNDS,
+        TransferResult.OK,
+      ]);
+      const { TransactItems } = ddbMock.commandCalls(ddc.TransactWriteCommand)[1].args[0].input;
+      expect(TransactItems!.map((item) => item.Put?.Item?.pk ?? item.Update?.Key?.pk)).toEqual([
+        "transfer#C",
+        "account#5",
+        "account#6",
+        "clock",
+      ]);
+    });
+
+    test("an invalid member fails its chain without affecting others", async () => {
+      ddbMock.on(ddc.TransactWriteCommand).resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [
+        linkedA,
+        { ...chainedB, pending_id: "A" },
+        independentC,
+      ]);
+
+      expect(result.results).toEqual([
+        TransferResult.LINKED_EVENT_FAILED,
+        TransferResult.PENDING_ID_MUST_NOT_BE_SET,
+        TransferResult.OK,
+      ]);
+      expect(ddbMock).toHaveReceivedCommandTimes(ddc.TransactWriteCommand, 1);
+    });
+
+    test("a chain left open at the end of the batch is rejected", async () => {
+      ddbMock.on(ddc.TransactWriteCommand).resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [
+        independentC,
+        linkedA,
+        { ...chainedB, flags: TransferFlags.LINKED },
+      ]);
+
+      expect(result.results).toEqual([
+        TransferResult.OK,
+        TransferResult.LINKED_EVENT_FAILED,
+        TransferResult.LINKED_EVENT_CHAIN_OPEN,
+      ]);
+    });
+
+    test("chains are never split across transactions", async () => {
+      ddbMock.on(ddc.TransactWriteCommand).resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      // 30 chains of two transfers each between distinct accounts, 6 items per chain
+      const transfers: Transfer[] = [];
+      for (let i = 0; i < 30; i++) {
+        transfers.push({
+          ...txnCommon,
+          id: `${i}a`,
+          debit_account_id: 4 * i,
+          credit_account_id: 4 * i + 1,
+          flags: TransferFlags.LINKED,
         });
+        transfers.push({ ...txnCommon, id: `${i}b`, debit_account_id: 4 * i + 2, credit_account_id: 4 * i + 3 });
+      }
 
-      const transfers: Transfer[] = [txn1, txn2];
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, transfers);
 
-      // Can't get p-Retry to work under Jest; trivial retry strategy to verify it is being used
-      const testRetryStrategy = async (fn: () => Promise<CreateTransfersResult>) => {
-        try {
-          return await fn();
-        } catch (err) {
-          // Retry just once on TransactionCanceledException:
-          if (err instanceof dynamodb.TransactionCanceledException) {
-            return await fn();
-          }
-          throw err;
+      expect(result.results).toSatisfyAll((r) => r === TransferResult.OK);
+      expect(result.transactions.length).toEqual(2);
+      for (const transaction of result.transactions) {
+        for (const index of transaction.transfers) {
+          expect(transaction.transfers).toContain(index % 2 === 0 ? index + 1 : index - 1);
         }
+      }
+    });
+  });
+
+  describe("account transfer history", () => {
+    const item = (id: string, debit: number, credit: number, timestamp: number) => ({
+      pk: `transfer#${id}`,
+      sk: `transfer#${id}`,
+      ...txnCommon,
+      id,
+      debit_account_id: debit,
+      credit_account_id: credit,
+      timestamp,
+    });
+
+    test("merges debits and credits in timestamp order and resumes each side where it left off", async () => {
+      ddbMock
+        .on(ddc.QueryCommand, { IndexName: DEBIT_ACCOUNT_TRANSFERS_INDEX })
+        .resolvesOnce({ $metadata: {}, Items: [item("a", 1, 2, 10), item("c", 1, 3, 30)] })
+        .resolves({ $metadata: {}, Items: [] });
+      ddbMock
+        .on(ddc.QueryCommand, { IndexName: CREDIT_ACCOUNT_TRANSFERS_INDEX })
+        .resolvesOnce({
+          $metadata: {},
+          Items: [item("b", 2, 1, 20), item("d", 3, 1, 40)],
+          LastEvaluatedKey: { pk: "transfer#d", sk: "transfer#d", credit_account_id: 1, timestamp: 40 },
+        })
+        .resolves({ $metadata: {}, Items: [item("e", 2, 1, 50)] });
+
+      const first = await getAccountTransfers(dynamoDbDocumentClient, TABLE_NAME, 1, { limit: 2 });
+
+      expect(first.transfers.map((t) => t.id)).toEqual(["a", "b"]);
+      expect(first.transfers[0]).not.toContainKeys(["pk", "sk"]);
+      expect(first.cursor).toBeString();
+
+      const second = await getAccountTransfers(dynamoDbDocumentClient, TABLE_NAME, 1, {
+        limit: 2,
+        cursor: first.cursor,
+      });
+
+      const queries = ddbMock.commandCalls(ddc.QueryCommand).map(({ args }) => args[0].input);
+      expect(queries[2]).toMatchObject({
+        IndexName: DEBIT_ACCOUNT_TRANSFERS_INDEX,
+        ExclusiveStartKey: { pk: "transfer#a", sk: "transfer#a", debit_account_id: 1, timestamp: 10 },
+      });
+      expect(queries[3]).toMatchObject({
+        IndexName: CREDIT_ACCOUNT_TRANSFERS_INDEX,
+        ExclusiveStartKey: { pk: "transfer#b", sk: "transfer#b", credit_account_id: 1, timestamp: 20 },
+      });
+      expect(second.transfers.map((t) => t.id)).toEqual(["e"]);
+      expect(second.cursor).toBeUndefined();
+    });
+
+    test("stops at the end of one side's page while the other side has more to read", async () => {
+      ddbMock.on(ddc.QueryCommand, { IndexName: DEBIT_ACCOUNT_TRANSFERS_INDEX }).resolves({
+        $metadata: {},
+        Items: [item("a", 1, 2, 10)],
+        LastEvaluatedKey: { pk: "transfer#a", sk: "transfer#a", debit_account_id: 1, timestamp: 10 },
+      });
+      ddbMock
+        .on(ddc.QueryCommand, { IndexName: CREDIT_ACCOUNT_TRANSFERS_INDEX })
+        .resolves({ $metadata: {}, Items: [item("b", 2, 1, 20), item("c", 2, 1, 30)] });
+
+      const page = await getAccountTransfers(dynamoDbDocumentClient, TABLE_NAME, 1, { limit: 3 });
+
+      expect(page.transfers.map((t) => t.id)).toEqual(["a"]);
+      expect(page.cursor).toBeString();
+    });
+  });
+
+  describe("transfer lookup", () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test("reads back transfers in batches of 100, including unprocessed keys", async () => {
+      const ids = Array.from({ length: 150 }, (_, i) => `${i}`);
+      const itemOf = (key: Record<string, any>) => ({ ...key, ...txn1, id: key.pk.split("#")[1] });
+      ddbMock.on(ddc.BatchGetCommand).callsFake((input: ddc.BatchGetCommandInput) => {
+        const keys = input.RequestItems![TABLE_NAME].Keys!;
+        // Leave the last key of each full batch unprocessed, and leave out transfer 7 altogether
+        const processed = keys.length === 100 ? keys.slice(0, 99) : keys;
+        return {
+          Responses: { [TABLE_NAME]: processed.filter((key) => key.pk !== "transfer#7").map(itemOf) },
+          UnprocessedKeys: keys.length === 100 ? { [TABLE_NAME]: { Keys: keys.slice(99) } } : {},
+          ConsumedCapacity: [{ TableName: TABLE_NAME, CapacityUnits: 1 }],
+        };
+      });
+
+      const result = await lookupTransfers(dynamoDbDocumentClient, TABLE_NAME, [...ids].reverse());
+
+      expect(ddbMock).toHaveReceivedCommandTimes(ddc.BatchGetCommand, 3);
+      expect(result.transfers.map((t) => t.id)).toEqual(ids.filter((id) => id !== "7").reverse());
+      expect(result.transfers[0]).not.toContainKeys(["pk", "sk"]);
+      expect(result.consumedReadCapacity).toEqual(3);
+    });
+
+    test("keys left unprocessed for too long are reported as throttled", async () => {
+      jest.spyOn(Math, "random").mockReturnValue(0);
+      ddbMock.on(ddc.BatchGetCommand).callsFake((input: ddc.BatchGetCommandInput) => ({
+        Responses: { [TABLE_NAME]: [] },
+        UnprocessedKeys: { [TABLE_NAME]: { Keys: input.RequestItems![TABLE_NAME].Keys! } },
+      }));
+
+      await expect(lookupTransfers(dynamoDbDocumentClient, TABLE_NAME, ["1", "2"])).rejects.toThrow(ThrottledError);
+      expect(ddbMock).toHaveReceivedCommandTimes(ddc.BatchGetCommand, 9);
+    });
+
+    test("reads back accounts in batches of 100, including unprocessed keys", async () => {
+      const ids = Array.from({ length: 150 }, (_, i) => i + 1);
+      ddbMock.on(ddc.BatchGetCommand).callsFake((input: ddc.BatchGetCommandInput) => {
+        const keys = input.RequestItems![TABLE_NAME].Keys!;
+        const processed = keys.length === 100 ? keys.slice(0, 99) : keys;
+        return {
+          Responses: { [TABLE_NAME]: processed.map((key) => ({ ...key, ledger: 700 })) },
+          UnprocessedKeys: keys.length === 100 ? { [TABLE_NAME]: { Keys: keys.slice(99) } } : {},
+        };
+      });
+
+      const result = await getAccountsBatch(dynamoDbDocumentClient, TABLE_NAME, ids);
+
+      expect(ddbMock).toHaveReceivedCommandTimes(ddc.BatchGetCommand, 3);
+      expect(result.accounts!.map((a) => a.id)).toIncludeSameMembers(ids);
+    });
+  });
+
+  describe("history accounts", () => {
+    const historyAccount = (version?: number) =>
+      marshall({
+        pk: "account#1",
+        sk: "account#1",
+        ledger: 700,
+        flags: new Set([AccountFlags[AccountFlags.HISTORY]]),
+        debits_pending: 0n,
+        debits_posted: 100n,
+        credits_pending: 0n,
+        credits_posted: 50n,
+        ...(version !== undefined ? { version } : {}),
+      });
+    const discovered = (item: Record<string, any>) =>
+      new dynamodb.TransactionCanceledException({
+        $metadata: {},
+        message: "Transaction cancelled, please refer cancellation reasons for specific reasons",
+        CancellationReasons: [
+          { Code: "None" },
+          { Code: "None" },
+          { Code: "ConditionalCheckFailed", Item: item },
+          { Code: "None" },
+          { Code: "None" },
+        ],
+      });
+
+    test("balance snapshots are recorded once the account turns out to keep history", async () => {
+      ddbMock
+        .on(ddc.TransactWriteCommand)
+        .rejectsOnce(discovered(historyAccount(3)))
+        .resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [txn1, { ...txn1, id: "3" }]);
+
+      expect(result.results).toEqual([TransferResult.OK, TransferResult.OK]);
+      const [first, second] = result.timestamps as number[];
+      expect(second).toBeGreaterThan(first);
+      const { TransactItems } = ddbMock.commandCalls(ddc.TransactWriteCommand)[1].args[0].input;
+      const debitUpdate = TransactItems!.find((item) => item.Update?.Key?.pk === "account#1")!.Update!;
+      expect(debitUpdate.ConditionExpression).toEndWith(" AND version = :version");
+      expect(debitUpdate.UpdateExpression).toEndWith(", version :one");
+      expect(debitUpdate.ExpressionAttributeValues).toMatchObject({ ":version": 3 });
+      const snapshots = TransactItems!
+        .filter((item) => item.Put?.Item?.sk.startsWith("balance#"))
+        .map((s) => s.Put!.Item);
+      expect(snapshots).toEqual([
+        {
+          pk: "account#1",
+          sk: `balance#${String(first).padStart(20, "0")}#1`,
+          timestamp: first,
+          transfer_id: "1",
+          debits_pending: 0n,
+          debits_posted: 110n,
+          credits_pending: 0n,
+          credits_posted: 50n,
+        },
+        expect.objectContaining({ sk: `balance#${String(second).padStart(20, "0")}#3`, debits_posted: 120n }),
+      ]);
+    });
+
+    test("balances as of a point in time come from the latest snapshot up to then", async () => {
+      ddbMock.on(ddc.QueryCommand).resolves({
+        $metadata: {},
+        Items: [
+          {
+            pk: "account#1",
+            sk: "balance#00000000000000001000#1",
+            timestamp: 1000,
+            transfer_id: "1",
+            debits_pending: 0n,
+            debits_posted: 110n,
+            credits_pending: 0n,
+            credits_posted: 50n,
+          },
+        ],
+      });
+
+      const result = await getAccountBalances(dynamoDbDocumentClient, TABLE_NAME, 1, { asOf: 1500 });
+
+      expect(result.balances).toEqual([
+        {
+          timestamp: 1000,
+          transfer_id: "1",
+          debits_pending: 0n,
+          debits_posted: 110n,
+          credits_pending: 0n,
+          credits_posted: 50n,
+        },
+      ]);
+      expect(ddbMock).toHaveReceivedCommandWith(ddc.QueryCommand, {
+        TableName: TABLE_NAME,
+        ExpressionAttributeValues: {
+          ":pk": "account#1",
+          ":from": "balance#",
+          ":to": "balance#00000000000000001500#\uffff",
+        },
+        ScanIndexForward: false,
+        Limit: 1,
+      });
+    });
+  });
+
+  describe("sharded accounts", () => {
+    // Shard counts are remembered across batches, so these accounts are kept apart from the rest of the tests
+    const shardedTxn = { ...txnCommon, id: "50", debit_account_id: 51, credit_account_id: 52 };
+    const shardedAccount = (shard: number, debit_headroom: number, accountId = 51) =>
+      marshall({
+        pk: shard > 0 ? `account#${accountId}#shard#${shard}` : `account#${accountId}`,
+        sk: shard > 0 ? `account#${accountId}#shard#${shard}` : `account#${accountId}`,
+        ledger: 700,
+        flags: new Set([AccountFlags[AccountFlags.DEBITS_MUST_NOT_EXCEED_CREDITS]]),
+        debit_headroom,
+        ...(shard === 0 ? { shards: 2 } : {}),
+      });
+    const debitFailed = (item: Record<string, any>) =>
+      new dynamodb.TransactionCanceledException({
+        $metadata: {},
+        message: "Transaction cancelled, please refer cancellation reasons for specific reasons",
+        CancellationReasons: [
+          { Code: "None" },
+          { Code: "ConditionalCheckFailed", Item: item },
+          { Code: "None" },
+          { Code: "None" },
+        ],
+      });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test("updates go to a shard once the account turns out to be sharded, until all shards run out of funds", async () => {
+      jest.spyOn(Math, "random").mockReturnValue(0.99);
+      ddbMock
+        .on(ddc.TransactWriteCommand)
+        .rejectsOnce(debitFailed(shardedAccount(0, 100)))
+        .rejectsOnce(debitFailed(shardedAccount(1, 5)))
+        .rejectsOnce(debitFailed(shardedAccount(0, 4)));
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [shardedTxn]);
+
+      expect(result.results).toEqual([TransferResult.INSUFFICIENT_FUNDS]);
+      const debitUpdates = ddbMock
+        .commandCalls(ddc.TransactWriteCommand)
+        .map(({ args }) => args[0].input.TransactItems![1].Update!);
+      expect(debitUpdates.map((u) => u.Key!.pk)).toEqual(["account#51", "account#51#shard#1", "account#51"]);
+      expect(debitUpdates[0].ConditionExpression).toContain("attribute_not_exists(shards)");
+      expect(debitUpdates[1].ConditionExpression).toEqual(
+        "NOT contains(flags, :closed) AND NOT contains(flags, :debits_frozen) AND " +
+          "(NOT contains(flags, :debits_limit) OR debit_headroom >= :debits_required) AND " +
+          "(attribute_not_exists(debits_posted) OR debits_posted <= :debits_posted_max) AND attribute_exists(pk)",
+      );
+    });
+
+    test("a debit that only the shards taken together have room for is told apart", async () => {
+      jest.spyOn(Math, "random").mockReturnValue(0.99);
+      ddbMock
+        .on(ddc.TransactWriteCommand)
+        .rejectsOnce(debitFailed(shardedAccount(0, 100, 65)))
+        .rejectsOnce(debitFailed(shardedAccount(1, 5, 65)))
+        .rejectsOnce(debitFailed(shardedAccount(0, 5, 65)));
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [
+        { ...shardedTxn, id: "65", debit_account_id: 65 },
+      ]);
+
+      expect(result.results).toEqual([TransferResult.EXCEEDS_SHARD_HEADROOM]);
+      expect(ddbMock).toHaveReceivedCommandTimes(ddc.TransactWriteCommand, 3);
+    });
+
+    test("pending transfers are released from the shard they reserved their amount on", async () => {
+      const pending = {
+        ...txnCommon,
+        id: "57",
+        debit_account_id: 57,
+        credit_account_id: 58,
+        flags: TransferFlags.PENDING,
       };
+      jest.spyOn(Math, "random").mockReturnValue(0.99);
+      ddbMock
+        .on(ddc.TransactWriteCommand)
+        .rejectsOnce(debitFailed(marshall({ pk: "account#57", sk: "account#57", ledger: 700, shards: 3 })))
+        .resolves({ $metadata: {} });
 
-      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, transfers, testRetryStrategy);
-      expect(result.overallResult).toEqual(TransferResult.OK);
-      expect(ddbMock).toHaveReceivedCommandTimes(ddc.TransactWriteCommand, 2);
+      await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [pending]);
+
+      const reserved = ddbMock.commandCalls(ddc.TransactWriteCommand)[1].args[0].input.TransactItems![0].Put!.Item!;
+      expect(reserved).toMatchObject({ pk: "transfer#57", debit_shard: 2 });
+      expect(reserved).not.toHaveProperty("credit_shard");
+
+      // The transaction picks another shard for the rest of its transfers
+      jest.spyOn(Math, "random").mockReturnValue(0);
+      ddbMock.on(ddc.BatchGetCommand).resolves({ $metadata: {}, Responses: { [TABLE_NAME]: [reserved] } });
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [
+        { ...pending, id: "59", pending_id: "57", flags: TransferFlags.POST_PENDING_TRANSFER },
+        { ...shardedTxn, id: "60", debit_account_id: 57, credit_account_id: 58, amount: 5n },
+      ]);
+
+      expect(result.results).toEqual([TransferResult.OK, TransferResult.OK]);
+      const { transfers } = await lookupTransfers(dynamoDbDocumentClient, TABLE_NAME, ["57"]);
+      expect(transfers[0]).not.toHaveProperty("debit_shard");
+      const updates = ddbMock
+        .commandCalls(ddc.TransactWriteCommand)[2]
+        .args[0].input.TransactItems!.filter((item) => item.Update?.Key?.pk.startsWith("account#"))
+        .map((item) => item.Update!);
+      expect(updates.map((u) => [u.Key!.pk, u.ExpressionAttributeValues])).toEqual([
+        ["account#57#shard#2", expect.objectContaining({ ":debits_pending": -10n, ":debits_posted": 10n })],
+        ["account#58", expect.objectContaining({ ":credits_pending": -10n, ":credits_posted": 15n })],
+        ["account#57", expect.objectContaining({ ":debits_pending": 0n, ":debits_posted": 5n })],
+      ]);
+    });
+
+    test("reading an account adds up the balances of its shards", async () => {
+      ddbMock.on(ddc.GetCommand).resolves({
+        $metadata: {},
+        Item: {
+          pk: "account#53",
+          sk: "account#53",
+          ledger: 700,
+          shards: 3,
+          debits_pending: 0n,
+          debits_posted: 10n,
+          credits_pending: 0n,
+          credits_posted: 100n,
+        },
+      });
+      ddbMock.on(ddc.BatchGetCommand).resolves({
+        $metadata: {},
+        Responses: {
+          [TABLE_NAME]: [1, 2].map((shard) => ({
+            pk: `account#53#shard#${shard}`,
+            sk: `account#53#shard#${shard}`,
+            ledger: 700,
+            debits_pending: 5n,
+            debits_posted: 20n,
+            credits_pending: 0n,
+            credits_posted: 0n,
+          })),
+        },
+      });
+
+      const account = await getAccount(dynamoDbDocumentClient, TABLE_NAME, 53);
+
+      expect(account).toEqual({
+        id: 53,
+        ledger: 700,
+        shards: 3,
+        debits_pending: 10n,
+        debits_posted: 50n,
+        credits_pending: 0n,
+        credits_posted: 100n,
+      });
+      expect(ddbMock).toHaveReceivedCommandWith(ddc.BatchGetCommand, {
+        RequestItems: {
+          [TABLE_NAME]: {
+            Keys: [
+              { pk: "account#53#shard#1", sk: "account#53#shard#1" },
+              { pk: "account#53#shard#2", sk: "account#53#shard#2" },
+            ],
+            ConsistentRead: false,
+          },
+        },
+      });
+    });
+  });
+
+  describe("queries by user_data and code", () => {
+    test("transfers are written with the index keys", async () => {
+      ddbMock.on(ddc.TransactWriteCommand).resolves({ $metadata: {}, ConsumedCapacity: [] });
+
+      const result = await createTransfersBatch(dynamoDbDocumentClient, TABLE_NAME, [
+        { ...txn1, user_data: 42, code: 7 },
+        { ...txn2, code: 0 },
+      ]);
+
+      const { TransactItems } = ddbMock.commandCalls(ddc.TransactWriteCommand)[0].args[0].input;
+      expect(TransactItems![0].Put!.Item).toMatchObject({
+        user_data_key: "transfer#42",
+        code_key: expect.stringMatching(/^transfer#700#7#\d+$/),
+        index_sk: `${String(result.timestamps[0]).padStart(20, "0")}#1`,
+      });
+      expect(TransactItems![1].Put!.Item).not.toContainAnyKeys(["user_data_key", "code_key"]);
+    });
+
+    test("user_data queries filter on the rest", async () => {
+      ddbMock.on(ddc.QueryCommand).resolves({
+        $metadata: {},
+        Items: [{ pk: "transfer#1", sk: "transfer#1", ...txn1, user_data: 42, user_data_key: "transfer#42" }],
+      });
+
+      const result = await queryTransfers(dynamoDbDocumentClient, TABLE_NAME, { user_data: 42, code: 7 });
+
+      expect(result.transfers).toEqual([{ ...txn1, user_data: 42 }]);
+      expect(ddbMock).toHaveReceivedCommandTimes(ddc.QueryCommand, 1);
+      expect(ddbMock).toHaveReceivedCommandWith(ddc.QueryCommand, {
+        TableName: TABLE_NAME,
+        IndexName: USER_DATA_INDEX,
+        FilterExpression: "code = :code",
+      });
+    });
+
+    test("code queries fan out over the index shards", async () => {
+      ddbMock.on(ddc.QueryCommand).resolves({ $metadata: {}, Items: [] });
+
+      const result = await queryTransfers(dynamoDbDocumentClient, TABLE_NAME, { ledger: 700, code: 7 });
+
+      expect(result.transfers).toEqual([]);
+      expect(result.cursor).toBeUndefined();
+      const keys = ddbMock.commandCalls(ddc.QueryCommand).map(({ args }) => {
+        expect(args[0].input.IndexName).toEqual(CODE_INDEX);
+        return args[0].input.ExpressionAttributeValues![":key"];
+      });
+      expect(keys).toEqual(Array.from({ length: 16 }, (_, shard) => `transfer#700#7#${shard}`));
+    });
+
+    test("queries must narrow down to an index", async () => {
+      await expect(queryTransfers(dynamoDbDocumentClient, TABLE_NAME, { code: 7 })).rejects.toThrow();
     });
   });
 });